@@ -0,0 +1,120 @@
+///<reference path="World.ts"/>
+///<reference path="Parser.ts"/>
+
+/**
+* Dialogue module
+*
+* This module holds the state of a dialogue with one user: the question
+* that the system has asked, if any, and the objects that earlier
+* utterances referred to. The session owns its dialogue context and
+* passes it along with every utterance, so that several dialogues can
+* run side by side without disturbing each other.
+*/
+module Dialogue {
+
+    /** An object, or several objects, that an utterance referred to. */
+    export interface Referent {
+        labels : string[];
+        plural : boolean;
+    }
+
+    /** The objects that an entity of a command could refer to. */
+    export interface Candidates {
+        labels : string[];
+        quantifier : string;
+    }
+
+    /** A sequence of commands that stopped to ask the user a question. */
+    export interface Sequence {
+        /** The plan of the commands before the one that asked. */
+        plan : string[];
+        /** The world state that those commands leave behind. */
+        state : WorldState;
+        /** The commands after the one that asked. */
+        commands : Parser.Command[];
+    }
+
+    /** The state of a dialogue between the system and one user. */
+    export interface DialogueContext {
+        /** The relation of a command that the system asked the user to
+         * clarify, e.g. "inside", "holding" or "swap", or null if the
+         * system is not waiting for an answer. */
+        relation : string;
+        /** Whether the relation of the command should hold or not. */
+        polarity : boolean;
+        /** The question that the system asked. */
+        message : string;
+        /** The objects that could be moved by the command. */
+        movableLabels : string[];
+        /** The objects that the moved objects could be related to. */
+        relatableLabels : string[];
+        movableQuantifier : string;
+        relatableQuantifier : string;
+        /** The comparison that the moved objects and the objects that they
+         * are related to have to satisfy, e.g. "samecolor" for "a box of the
+         * same color", or undefined. */
+        comparison : string;
+        /** The location of a "between" command, which has two entities. */
+        between : Parser.Location;
+        /** The candidates for the two objects of a "swap" command. */
+        swap : Candidates[];
+        /** The referents of earlier utterances, most recent last. The
+         * referents of one utterance are in the order they were mentioned. */
+        referents : Referent[][];
+        /** The readings that the user was asked to choose between by number. */
+        ambiguousParses : Parser.ParseResult[];
+        /** A spelling correction of the last utterance, which the user can
+         * accept by answering "yes". */
+        suggestion : string;
+        /** The sequence that goes on once the user has answered the question. */
+        sequence : Sequence;
+    }
+
+    /** Creates the context of a new dialogue, where nothing has been said yet. */
+    export function newContext() : DialogueContext {
+        return {
+            relation: null,
+            polarity: undefined,
+            message: undefined,
+            movableLabels: [],
+            relatableLabels: [],
+            movableQuantifier: undefined,
+            relatableQuantifier: undefined,
+            comparison: undefined,
+            between: undefined,
+            swap: undefined,
+            referents: [],
+            ambiguousParses: undefined,
+            suggestion: undefined,
+            sequence: undefined,
+        };
+    }
+
+    /** Copies a context, so that an utterance can be tried out without
+     * changing the dialogue that it belongs to. */
+    export function copyContext(context : DialogueContext) : DialogueContext {
+        var copy = newContext();
+        restoreContext(copy, context);
+        return copy;
+    }
+
+    /** Gives a context the state of another one, which is usually a copy
+     * that an utterance was tried out in. */
+    export function restoreContext(context : DialogueContext, state : DialogueContext) : void {
+        context.relation = state.relation;
+        context.polarity = state.polarity;
+        context.message = state.message;
+        context.movableLabels = state.movableLabels;
+        context.relatableLabels = state.relatableLabels;
+        context.movableQuantifier = state.movableQuantifier;
+        context.relatableQuantifier = state.relatableQuantifier;
+        context.comparison = state.comparison;
+        context.between = state.between;
+        context.swap = state.swap;
+        context.referents = state.referents.slice();
+        context.ambiguousParses = state.ambiguousParses;
+        context.suggestion = state.suggestion;
+        context.sequence = state.sequence;
+    }
+
+}
@@ -0,0 +1,84 @@
+///<reference path="Messages.ts"/>
+
+/**
+* Errors module
+*
+* The errors that the interpreter and the planner report when they
+* cannot do what the user asked for. Every error has a code for its
+* kind, the objects and the relation that it is about, and a message
+* that explains it to the user in the current language, which is built
+* with the Messages module.
+*/
+module Errors {
+
+    /** An error that is explained to the user. */
+    export class ShrdliteError extends Error {
+        /** The kind of error, e.g. "no-match" or "physics-violation". */
+        code : string;
+        /** The labels of the objects that the error is about, if any. */
+        labels : string[];
+        /** The relation that the error is about, e.g. "ontop", if any. */
+        relation : string;
+
+        constructor(code : string, message : string, labels : string[] = [],
+                    relation : string = null) {
+            super(message);
+            this.name = "ShrdliteError";
+            this.message = message;
+            this.code = code;
+            this.labels = labels;
+            this.relation = relation;
+        }
+
+        toString() : string {
+            return this.message;
+        }
+    }
+
+    /** Nothing in the world, or in the dialogue, matches what the user referred to. */
+    export class NoMatchError extends ShrdliteError {
+        constructor(message : string, labels? : string[], relation? : string) {
+            super("no-match", message, labels, relation);
+        }
+    }
+
+    /** Several objects match what the user referred to, and the system
+     * asks which one is meant. The labels are the candidates. */
+    export class AmbiguousReferenceError extends ShrdliteError {
+        constructor(message : string, labels? : string[], relation? : string) {
+            super("ambiguous-reference", message, labels, relation);
+        }
+    }
+
+    /** The goal breaks the physical laws of the world, e.g. a ball
+     * supporting another object. */
+    export class PhysicsViolationError extends ShrdliteError {
+        constructor(message : string, labels? : string[], relation? : string) {
+            super("physics-violation", message, labels, relation);
+        }
+    }
+
+    /** The goal can not be reached from the current world state, or can
+     * not be expressed at all. */
+    export class UnreachableGoalError extends ShrdliteError {
+        constructor(message : string, labels? : string[], relation? : string) {
+            super("unreachable-goal", message, labels, relation);
+        }
+    }
+
+    /** The goal has too many alternatives to consider, e.g. when every
+     * one of many objects can go to any one of many places. */
+    export class GoalTooLargeError extends ShrdliteError {
+        constructor(message : string, labels? : string[], relation? : string) {
+            super("goal-too-large", message, labels, relation);
+        }
+    }
+
+    /** The planner ran out of time before it found a plan. */
+    export class SearchTimeoutError extends ShrdliteError {
+        constructor(message : string, labels? : string[], relation? : string) {
+            super("search-timeout", message, labels, relation);
+        }
+    }
+
+}
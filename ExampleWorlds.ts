@@ -93,6 +93,10 @@ ExampleWorlds["small"] = {
         "l": { "form":"box",     "size":"large",  "color":"red"   },
         "m": { "form":"box",     "size":"small",  "color":"blue"  }
     },
+    "synonyms": {
+        "color": { "crimson":"red" },
+        "form":  { "sphere":"ball", "crate":"box" }
+    },
     "examples": [
         "put the white ball in a box on the floor",
         "put the black ball in a box on the floor",
@@ -130,5 +134,6 @@ ExampleWorlds["impossible"] = {
     },
     "examples": [
         "this is just an impossible world"
-    ]
+    ],
+    "physics": []
 };
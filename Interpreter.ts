@@ -1,5 +1,9 @@
 ///<reference path="World.ts"/>
 ///<reference path="Parser.ts"/>
+///<reference path="Messages.ts"/>
+///<reference path="Dialogue.ts"/>
+///<reference path="Errors.ts"/>
+///<reference path="Physics.ts"/>
 ///<reference path="lib/collections.ts"/>
 
 /**
@@ -34,15 +38,27 @@ module Interpreter {
 Top-level function for the Interpreter. It calls `interpretCommand` for each possible parse of the command. No need to change this one.
 * @param parses List of parses produced by the Parser.
 * @param currentState The current state of the world.
+* @param dialogue The dialogue that the parses belong to, which is updated with the questions asked and the objects referred to. A new dialogue is started if none is given.
 * @returns Augments ParseResult with a list of interpretations. Each interpretation is represented by a list of Literals.
 */
-    export function interpret(parses : Parser.ParseResult[], currentState : WorldState) : InterpretationResult[] {
+    export function interpret(parses : Parser.ParseResult[], currentState : WorldState,
+        dialogue : Dialogue.DialogueContext = Dialogue.newContext()) : InterpretationResult[] {
         var errors : Error[] = [];
         var interpretations : InterpretationResult[] = [];
         parses.forEach((parseresult) => {
             try {
                 var result : InterpretationResult = <InterpretationResult>parseresult;
-                result.interpretation = interpretCommand(result.parse, currentState);
+                if (result.parse.command == "where") {
+                    result.interpretation = [];
+                    result.answer = answerWhere(result.parse, currentState, dialogue);
+                } else if (result.parse.command == "count") {
+                    result.interpretation = [];
+                    result.answer = answerCount(result.parse, currentState, dialogue);
+                } else if (result.parse.command == "ask") {
+                    result.interpretation = interpretQuestion(result.parse, currentState, dialogue);
+                } else {
+                    result.interpretation = interpretCommand(result.parse, currentState, dialogue);
+                }
                 interpretations.push(result);
             } catch(err) {
                 errors.push(err);
@@ -58,11 +74,37 @@ Top-level function for the Interpreter. It calls `interpretCommand` for each pos
 
     export interface InterpretationResult extends Parser.ParseResult {
         interpretation : DNFFormula;
+        /** The answer to a question, for commands where the robot should not move. */
+        answer? : string;
     }
 
     export type DNFFormula = Conjunction[];
     type Conjunction = Literal[];
 
+    /** A conjunction of disjunctions, where one literal of every
+     * disjunction has to hold. */
+    export type CNFFormula = Literal[][];
+
+    /** The most conjunctions that a goal can have, since the planner
+     * has to consider every one of them. */
+    var maxConjunctions = 1000;
+
+    /** The most literals that are tried while a goal is converted into a
+     * DNFFormula. Contradictions can prune nearly every choice, so the work
+     * is bounded even when only a few conjunctions are found. */
+    var maxChoices = 100000;
+
+    /**
+     * Changes how large a goal can be before it is rejected.
+     * @param conjunctions The most conjunctions that a goal can have.
+     * @param choices The most literals that are tried while a goal is
+     * converted into a DNFFormula.
+     */
+    export function setGoalLimits(conjunctions : number, choices : number) : void {
+        maxConjunctions = conjunctions;
+        maxChoices = choices;
+    }
+
     /**
     * A Literal represents a relation that is intended to
     * hold among some objects.
@@ -93,16 +135,186 @@ Top-level function for the Interpreter. It calls `interpretCommand` for each pos
         return (lit.polarity ? "" : "-") + lit.relation + "(" + lit.args.join(",") + ")";
     }
 
+    //Describes a literal in words, e.g. "the white ball is inside of the red box".
+    export function describeLiteral(lit : Literal, state : WorldState) : string {
+        var subject = minimalInfo(lit.args[0], state);
+        if (lit.relation == "holding") {
+            return Messages.text(lit.polarity ? "holding" : "notHolding", subject);
+        }
+        var objects = lit.args.slice(1).map((label) => minimalInfo(label, state));
+        return Messages.text(lit.polarity ? "relationHolds" : "relationFails", subject,
+            Messages.relation(lit.relation) + " " + objects.join(Messages.text("and")));
+    }
+
+
+    /**
+     * Paraphrases a goal as what the robot will do, e.g. "I will put the
+     * white ball in either the yellow box or the small blue box."
+     * @param formula The goal of a command.
+     * @param state The world state before the robot acts, in which the
+     * objects are described.
+     */
+    export function paraphrase(formula : DNFFormula, state : WorldState) : string {
+        return Messages.text("willDo", describeFormula(formula, state));
+    }
+
+
+    //Given a label finds the minimum unique description of the corresponding
+    //object in the world state, e.g. "the white ball".
+    export function minimalInfo(label: string, state : WorldState) : string{
+        if (label == "floor") return Messages.describe(getFloor(), "the");
+        if (isFloor(label))
+            return Messages.text("floorInColumn", Messages.ordinal(floorColumn(label) + 1));
+        var obj = state.objects[label];
+        var labels = objectLabels(state);
+        var checks = [ {size: null, color: null, form: obj.form},
+                       {size: null, color : obj.color, form : obj.form},
+                       {size: obj.size, color : null, form : obj.form},
+                       {size: obj.size, color : obj.color, form : obj.form} ];
+        for (var i = 0; i < checks.length; i++){
+            var c = checks[i]
+            if (filterLabels(labels, c.size, c.color, c.form, state).length == 1)
+              return Messages.describe(c, "the");
+        }
+        // cannot find an individual object based on size, color and form
+        return Messages.describe(checks[3], "the");
+    }
+
+    /**
+     * Describes where an object is in the world, e.g. "The white ball is
+     * inside of the red box, in the second stack." A column is described by
+     * what is at its bottom.
+     */
+    export function describePosition(label : string, state : WorldState) : string {
+        var column = floorColumn(label);
+        if (column != null) {
+            var ordinal = Messages.ordinal(column + 1);
+            return state.stacks[column].length == 0 ? Messages.text("emptyColumn", ordinal) :
+                Messages.text("columnBottom", ordinal, minimalInfo(state.stacks[column][0], state));
+        }
+        var name = minimalInfo(label, state);
+        if (state.holding == label) {
+            return Messages.text("holdingPosition", name);
+        }
+        var stackIndex = findStack(label, state);
+        var stack = state.stacks[stackIndex];
+        var height = findHeight(label, stack);
+        var below = height == 0 ? "floor" : stack[height - 1];
+        var where = below == "floor" ? Messages.text("onTheFloor") :
+            Messages.relation(state.objects[below].form == "box" ? "inside" : "ontop") +
+            " " + minimalInfo(below, state);
+        return Messages.text("position", Messages.capitalize(name), where,
+            Messages.ordinal(stackIndex + 1));
+    }
 
-    var preMovableLabels: string[] = [];
-    var preRelatableLabels: string[] = [];
-    var preRelation: string;
-    var preMessage: string;
-    var preMovableQuantifier: string;
-    var preRelatableQuantifier: string;
 
     //////////////////////////////////////////////////////////////////////
     // private functions
+
+    /** The most alternatives that a paraphrase lists before it sums up the rest. */
+    var maxAlternatives = 4;
+
+    //Describes the alternatives of a goal. When the alternatives are every
+    //combination of some objects with some locations, they are described
+    //together, e.g. "put either the black ball or the white ball in either
+    //the red box or the blue box".
+    function describeFormula(formula : DNFFormula, state : WorldState) : string {
+        var first = formula[0][0];
+        var subjects : string[] = [];
+        var objects : string[] = [];
+        var locations : Literal[] = [];
+        var pairs : string[] = [];
+        for (var conjunction of formula) {
+            var lit = conjunction[0];
+            if (conjunction.length != 1 || lit.relation != first.relation ||
+                lit.polarity != first.polarity) {
+                subjects = null;
+                break;
+            }
+            var args = lit.args.slice(1).join();
+            if (subjects.indexOf(lit.args[0]) == -1) subjects.push(lit.args[0]);
+            if (objects.indexOf(args) == -1) {
+                objects.push(args);
+                locations.push(lit);
+            }
+            if (pairs.indexOf(stringifyLiteral(lit)) == -1) pairs.push(stringifyLiteral(lit));
+        }
+        if (subjects != null && subjects.length * objects.length == pairs.length) {
+            return describeGoal(first,
+                alternatives(subjects.map((label) => minimalInfo(label, state))),
+                alternatives(locations.map((lit) => describeArguments(lit, state))));
+        }
+        return alternatives(formula.map((conjunction) => describeConjunction(conjunction, state)));
+    }
+
+    //Describes the literals of a conjunction, where the objects that are
+    //put in the same places are described together, e.g. "take the white
+    //ball and the black ball out of the red box and the blue box".
+    function describeConjunction(conjunction : Conjunction, state : WorldState) : string {
+        var groups : {lit : Literal; subjects : string[]; objects : string[]}[] = [];
+        var sameGoal = (lit1 : Literal, lit2 : Literal) =>
+            lit1.relation == lit2.relation && lit1.polarity == lit2.polarity;
+        for (var lit of conjunction) {
+            var objects = describeArguments(lit, state);
+            var group = groups.filter((group) => sameGoal(group.lit, lit) &&
+                group.objects.join() == objects)[0];
+            if (group == undefined) {
+                groups.push({lit: lit, subjects: [minimalInfo(lit.args[0], state)], objects: [objects]});
+            } else {
+                group.subjects.push(minimalInfo(lit.args[0], state));
+            }
+        }
+        // Objects between two others are not listed together
+        var merged : typeof groups = [];
+        for (var group of groups) {
+            var same = merged.filter((other) => sameGoal(other.lit, group.lit) &&
+                group.lit.args.length == 2 && other.subjects.join() == group.subjects.join())[0];
+            if (same == undefined) {
+                merged.push(group);
+            } else {
+                same.objects = same.objects.concat(group.objects);
+            }
+        }
+        return enumerate(merged.map((group) =>
+            describeGoal(group.lit, enumerate(group.subjects), enumerate(group.objects))));
+    }
+
+    //Describes what the robot does to make a literal hold, given the
+    //descriptions of its first argument and of the rest of its arguments.
+    function describeGoal(lit : Literal, subject : string, objects : string) : string {
+        if (lit.relation == "holding") {
+            return Messages.text(lit.polarity ? "goalHolding" : "goalNotHolding", subject);
+        }
+        var preposition = Messages.goal(lit.relation, lit.polarity);
+        if (preposition == undefined) {
+            return Messages.text("goalNotRelation", subject, Messages.relation(lit.relation) + " " + objects);
+        }
+        return Messages.text(lit.polarity ? "goalRelation" : "goalRemoval", subject,
+            preposition + " " + objects);
+    }
+
+    //Describes the arguments of a literal after the first, e.g. "the red box"
+    //or "the red box and the blue box".
+    function describeArguments(lit : Literal, state : WorldState) : string {
+        return lit.args.slice(1).map((label) => minimalInfo(label, state)).join(Messages.text("and"));
+    }
+
+    //Joins phrases into a list, e.g. "A, B and C".
+    function enumerate(phrases : string[]) : string {
+        if (phrases.length == 1) return phrases[0];
+        return phrases.slice(0, -1).join(", ") + Messages.text("and") + phrases[phrases.length - 1];
+    }
+
+    //Joins phrases into one of several alternatives, e.g. "either A, B or C".
+    function alternatives(phrases : string[]) : string {
+        if (phrases.length == 1) return phrases[0];
+        var listed = phrases.slice(0, maxAlternatives);
+        if (phrases.length > maxAlternatives) {
+            listed.push(Messages.text("otherWays", phrases.length - maxAlternatives));
+        }
+        return Messages.text("either", listed.slice(0, -1).join(", ") +
+            Messages.text("or") + listed[listed.length - 1]);
+    }
     /**
      * The core interpretation function. The code here is just a
      * template; you should rewrite this function entirely. In this
@@ -114,124 +326,770 @@ Top-level function for the Interpreter. It calls `interpretCommand` for each pos
      * @param state The current state of the world. Useful to look up objects in the world.
      * @returns A list of list of Literal, representing a formula in disjunctive normal form (disjunction of conjunctions). See the dummy interpetation returned in the code for an example, which means ontop(a,floor) AND holding(b).
      */
-    function interpretCommand(cmd : Parser.Command, state : WorldState) : DNFFormula {
+    function interpretCommand(cmd : Parser.Command, state : WorldState,
+        dialogue : Dialogue.DialogueContext) : DNFFormula {
         // A label is a string id referencing an object in the world.
-        var labels = Array.prototype.concat.apply(["floor"], state.stacks);
+        var labels = Array.prototype.concat.apply(["floor"], state.stacks)
+            .concat(columnLabels(state));
         // Labels representing all movable labels.
         var movableLabels: string[] = [];
         // Labels representing all possible end-locations for the movable object.
         var relatableLabels: string[] = [];
 
         var command = cmd.command;
-        var putdown = cmd.entity == undefined || preRelation == "";
+        // "clear" has no entity of its own, everything is moved away from the location
+        var clear = command == "clear";
         var pickup = cmd.location == undefined;
-        var relation = pickup ? "holding" : cmd.location.relation;
+        var relation = pickup ? "holding" :
+            columnRelation(cmd.location.relation, cmd.location.entity.object);
+        // "remove" and "clear" ask for a relation to not hold
+        var polarity = command != "remove" && !clear;
 
         if (command == "specification") {
-            if (preRelation == null) {
-                throw "I beg your pardon?";
+            if (dialogue.relation == null) {
+                throw new Errors.NoMatchError(Messages.text("pardon"));
             }
-            relation = preRelation;
-            pickup = preRelation == "holding";
-            putdown = false;//state.holding != undefined;
+            relation = dialogue.relation;
+            polarity = dialogue.polarity;
+            pickup = dialogue.relation == "holding";
         } else{
-            preRelation = null;
+            dialogue.relation = null;
+        }
+        if (relation == "between") {
+            return interpretBetween(cmd, polarity, state, dialogue);
         }
-        var wasAmbigous = preRelation != null;
-        var movableQuantifier : string = putdown? "any": cmd.entity.quantifier;
+        // Commands whose goals are not a single relation
+        var verb = command == "specification" ? dialogue.relation : command;
+        if (verb == "swap") {
+            return interpretSwap(cmd, state, dialogue);
+        } else if (verb == "stack") {
+            return interpretStack(cmd, state, dialogue);
+        } else if (verb == "unstack") {
+            return interpretUnstack(cmd, state, dialogue);
+        }
+        var wasAmbigous = dialogue.relation != null;
+        var movableQuantifier : string = clear ? "all" : cmd.entity.quantifier;
         var locationQuantifier: string = pickup ? undefined : wasAmbigous ? cmd.entity.quantifier : cmd.location.entity.quantifier;
+        // The number of objects for counted quantifiers such as "at least two"
+        var movableCount : number = clear ? undefined : cmd.entity.count;
+        var locationCount : number = pickup ? undefined : wasAmbigous ? cmd.entity.count : cmd.location.entity.count;
+        // A location that is compared with the moved objects, e.g. "a box of
+        // the same color", is matched by the rest of its description, and only
+        // the pairs of objects that compare so are related.
+        var locationObject = pickup || wasAmbigous ? undefined : cmd.location.entity.object;
+        var comparison = wasAmbigous ? dialogue.comparison : undefined;
+        if (!pickup && !wasAmbigous && polarity && implicitComparison(locationObject) != undefined) {
+            comparison = locationObject.comparison.relation;
+            locationObject = locationObject.object;
+        }
+        var paired = comparison == undefined ? undefined :
+            (movable : string, relatable : string) => compares(movable, relatable, comparison, state);
 
         // Function that finds all candidate labels to be moved.
         var getMovingLables = function() {
-            var wasAmbigous = preRelation != null;
+            var wasAmbigous = dialogue.relation != null;
             if (wasAmbigous) {
-              if (preMovableLabels.length > 1 && preMovableQuantifier=="the") {
-                preMovableQuantifier = movableQuantifier;
-                var ls = matchObject(preMovableLabels,cmd.entity.object,state);
+              if (dialogue.movableLabels.length > 1 && dialogue.movableQuantifier=="the") {
+                dialogue.movableQuantifier = movableQuantifier;
+                var ls = matchObject(dialogue.movableLabels,cmd.entity.object,state, dialogue);
                 if(ls.length == 0){
-                  throw "That was not one of the options I gave you. " +
-                        preMessage;
+                  throw new Errors.NoMatchError(Messages.text("notAnOptionGiven", dialogue.message),
+                    dialogue.movableLabels, relation);
                 }
                 return ls;
               } else {
-                return preMovableLabels;
+                return dialogue.movableLabels;
               }
             } else {
-                preMovableQuantifier = movableQuantifier;
-                return matchObject(labels, cmd.entity.object, state);
+                dialogue.movableQuantifier = movableQuantifier;
+                var matched = matchObject(labels, cmd.entity.object, state, dialogue);
+                // The floor and the columns cannot be moved
+                var movable = matched.filter((label) => !isFloor(label));
+                if (movable.length == 0 && matched.length > 0) {
+                  var floor = floorColumn(matched[0]) == null;
+                  throw new Errors.PhysicsViolationError(Messages.text("cannotMove",
+                    Messages.describe({form: floor ? "floor" : "column"}, floor ? "the" : "a")),
+                    matched, relation);
+                }
+                return movable;
             }
         };
         // Function that finds all candidate labels for the object to be
         // moved to.
         var getRelatedLabels = function() {
 
-            var wasAmbigous = preRelation != null;
+            var wasAmbigous = dialogue.relation != null;
             if (wasAmbigous) {
-                if (preMovableLabels.length <=1 || preMovableQuantifier=="any") {
-                    preRelatableQuantifier = movableQuantifier;
-                    var ls = matchObject(preRelatableLabels,cmd.entity.object,state);
+                // Only "the" asks which object to move, so any other quantifier
+                // means that the answer is about the location, e.g. "all" when
+                // the user was asked which box to clear
+                if (dialogue.movableLabels.length <=1 || dialogue.movableQuantifier!="the") {
+                    dialogue.relatableQuantifier = movableQuantifier;
+                    var ls = matchObject(dialogue.relatableLabels,cmd.entity.object,state, dialogue);
                     if (ls.length == 0) {
-                      throw "That was not one of the options I asked for. " +
-                            preMessage;
+                      throw new Errors.NoMatchError(Messages.text("notAnOptionAsked", dialogue.message),
+                        dialogue.relatableLabels, relation);
                     }
                     return ls;
                 } else {
-                    return preRelatableLabels;
+                    return dialogue.relatableLabels;
                 }
             } else {
-                preRelatableQuantifier = locationQuantifier;
-                return matchObject(labels, cmd.location.entity.object, state);
+                dialogue.relatableQuantifier = locationQuantifier;
+                return matchObject(labels, locationObject, state, dialogue);
             }
         };
 
         if (state.holding != null)
             labels.push(state.holding);
 
-        if(putdown){
-            movableLabels = [state.holding];
+        if(clear && !wasAmbigous){
+            dialogue.movableQuantifier = movableQuantifier;
+            movableLabels = objectLabels(state);
             relatableLabels = getRelatedLabels();
+            if(relatableLabels.length == 0) {
+              throw new Errors.NoMatchError(Messages.text("thereIs",
+                  Messages.describe(cmd.location.entity.object, "no")), movableLabels, relation);
+            }
         } else if(pickup){
             movableLabels = getMovingLables();
             if(movableLabels.length == 0) {
-              var obj = cmd.entity.object;
-              var form = (obj.form == "anyform") ? "object" : obj.form;
-              var col = (obj.color == undefined) ? "" : obj.color + " ";
-              var size = (obj.size == undefined) ? "" : obj.size + " ";
-              throw "There is no " + size + col + form + ".";
+              throw new Errors.NoMatchError(Messages.text("thereIs", Messages.describe(cmd.entity.object, "no")),
+                [], relation);
             }
-            if(movableQuantifier == "all" && movableLabels.length > 1) {
-              throw "I can only hold one object at a time."
+            if((movableQuantifier == "all" && movableLabels.length > 1) ||
+               (isCounted(movableQuantifier) && movableQuantifier != "atmost" &&
+                movableCount > 1)) {
+              throw new Errors.PhysicsViolationError(Messages.text("holdOne"), movableLabels, relation);
             }
         } else {
             movableLabels = getMovingLables()
             relatableLabels = getRelatedLabels();
+            if (paired != undefined) {
+                var unpaired = movableLabels.filter((movable) =>
+                    !relatableLabels.some((relatable) => paired(movable, relatable)));
+                if (unpaired.length > 0 && (unpaired.length == movableLabels.length ||
+                    movableQuantifier == "all")) {
+                    var described = wasAmbigous ? {form: "anyform"} : findDestinationObject(cmd);
+                    throw new Errors.NoMatchError(Messages.text("thereIs", Messages.text("located",
+                        Messages.describe(described, "no"),
+                        Messages.comparison(comparison, minimalInfo(unpaired[0], state)))), unpaired, relation);
+                }
+                movableLabels = movableLabels.filter((movable) => unpaired.indexOf(movable) == -1);
+                relatableLabels = relatableLabels.filter((relatable) =>
+                    movableLabels.some((movable) => paired(movable, relatable)));
+            }
 
             //Check if parse is valid and filter any objects is need to make the
             //parse physically possible to perform.
-            if(!wasAmbigous){
+            if(!polarity && movableLabels.length == 0) {
+              throw new Errors.NoMatchError(Messages.text("nothingToMove"), relatableLabels, relation);
+            }
+            if(!wasAmbigous && polarity){
                 var updatedLabels = validateParse(cmd, movableLabels, relatableLabels, state)
                 movableLabels = updatedLabels.movableLabels;
                 relatableLabels = updatedLabels.relatableLabels;
             }
         }
 
-        preMovableLabels = movableLabels;
-        preRelatableLabels = relatableLabels;
+        dialogue.movableLabels = movableLabels;
+        dialogue.relatableLabels = relatableLabels;
+        dialogue.comparison = comparison;
 
         // If ambigous object throw error message
         if (movableLabels.length > 1 || relatableLabels.length > 1) {
-            preRelation = relation;
-            if (movableLabels.length > 1 && preMovableQuantifier == "the") {
-              preMessage = clarificationMessage(movableLabels, state);
-              throw preMessage;
-            } else if (relatableLabels.length > 1 && preRelatableQuantifier == "the") {
-              preMessage = clarificationMessage(relatableLabels, state);
-              throw preMessage;
+            dialogue.relation = relation;
+            dialogue.polarity = polarity;
+            if (movableLabels.length > 1 && dialogue.movableQuantifier == "the") {
+              dialogue.message = clarificationMessage(movableLabels, state);
+              throw new Errors.AmbiguousReferenceError(dialogue.message, movableLabels, relation);
+            } else if (relatableLabels.length > 1 && dialogue.relatableQuantifier == "the") {
+              dialogue.message = clarificationMessage(relatableLabels, state);
+              throw new Errors.AmbiguousReferenceError(dialogue.message, relatableLabels, relation);
             }
         }
-        preRelation = null;
+        dialogue.relation = null;
+        rememberReferents([
+            {labels: clear ? [] : movableLabels, plural: isPlural(movableQuantifier, movableCount)},
+            {labels: relatableLabels, plural: isPlural(locationQuantifier, locationCount)}], dialogue);
+        if (!polarity) {
+            // Removing something from "a box" means from every box
+            var lq = (command == "remove" && locationQuantifier == "any") ?
+                "all" : locationQuantifier;
+            return getNegativeDNFFormula(movableLabels, relatableLabels, relation,
+                movableQuantifier, lq, state);
+        }
         return getDNFFormula(movableLabels, relatableLabels, relation,
-           movableQuantifier, locationQuantifier, state);
+           movableQuantifier, locationQuantifier, state, movableCount, locationCount, paired);
+    }
+
+    /* Interprets a command to put objects between two others, or to make
+    sure that nothing is between them. The objects of the location are read
+    as any of their matches, while an ambiguous object to move is clarified
+    with the user like for the other relations. */
+    function interpretBetween(cmd : Parser.Command, polarity : boolean,
+        state : WorldState, dialogue : Dialogue.DialogueContext) : DNFFormula {
+        var labels = objectLabels(state);
+        var specification = cmd.command == "specification";
+        var location = specification ? dialogue.between : cmd.location;
+        var entity : Parser.Entity = cmd.command != "clear" ? cmd.entity :
+            {quantifier: "all", object: {size: null, color: null, form: "anyform"}};
+        var movableLabels = matchObject(specification ? dialogue.movableLabels : labels,
+            entity.object, state, dialogue);
+        if (movableLabels.length == 0) {
+            throw new Errors.NoMatchError(specification ?
+                Messages.text("notAnOptionGiven", dialogue.message) :
+                Messages.text("thereIs", Messages.describe(entity.object, "no")),
+                specification ? dialogue.movableLabels : [], "between");
+        }
+        if (movableLabels.length > 1 && entity.quantifier == "the") {
+            dialogue.relation = "between";
+            dialogue.polarity = polarity;
+            dialogue.between = location;
+            dialogue.movableLabels = movableLabels;
+            dialogue.movableQuantifier = "the";
+            dialogue.message = clarificationMessage(movableLabels, state);
+            throw new Errors.AmbiguousReferenceError(dialogue.message, movableLabels, "between");
+        }
+        dialogue.relation = null;
+        var references = [location.entity, location.entity2].map((reference) => {
+            var matches = matchObject(labels.concat(columnLabels(state)), reference.object, state, dialogue);
+            if (matches.length == 0) {
+                throw new Errors.NoMatchError(Messages.text("thereIs", Messages.describe(reference.object, "no")),
+                    movableLabels, "between");
+            }
+            return matches;
+        });
+        checkCount(entity, movableLabels);
+        rememberReferents([
+            {labels: cmd.command == "clear" ? [] : movableLabels,
+             plural: isPlural(entity.quantifier, entity.count)},
+            {labels: references[0],
+             plural: isPlural(location.entity.quantifier, location.entity.count)},
+            {labels: references[1],
+             plural: isPlural(location.entity2.quantifier, location.entity2.count)}], dialogue);
+        var interpretation = getBetweenDNFFormula(movableLabels, entity, polarity,
+            location, references);
+        if (interpretation.length == 0) {
+            throw new Errors.UnreachableGoalError(Messages.text("cannotDoThat"), movableLabels, "between");
+        }
+        return interpretation;
+    }
+
+    /**
+     * Creates a DNFFormula for the "between" relation, whose literals have
+     * three arguments: an object and the two objects it is between. The
+     * objects of the location are chosen like the objects to move, one at a
+     * time unless their quantifier is "all".
+     * @param The labels of the objects that could be moved
+     * @param The entity of the objects to move, for its quantifier
+     * @param Whether the objects should be between the others or not
+     * @param The location, for the quantifiers of its two entities
+     * @param The labels that match each of the two entities of the location
+     * @returns A DNFFormula, without the choices where an object would have
+     * to be between itself and another
+     */
+    function getBetweenDNFFormula(movableLabels : string[],
+                                  entity        : Parser.Entity,
+                                  polarity      : boolean,
+                                  location      : Parser.Location,
+                                  references    : string[][]) : DNFFormula {
+        movableLabels = movableLabels.filter((label) => !isFloor(label));
+        var choices = (labels : string[], quantifier : string) =>
+            quantifier == "all" ? [labels] : labels.map((label) => [label]);
+        var relate = (movables : string[], polarity : boolean) : DNFFormula => {
+            var formula : DNFFormula = [];
+            for (var firsts of choices(references[0], location.entity.quantifier)) {
+                for (var seconds of choices(references[1], location.entity2.quantifier)) {
+                    var conjunction : Conjunction = [];
+                    // Two columns next to each other have no column between them
+                    var possible = !polarity || firsts.every((first) => seconds.every((second) =>
+                        !isFloor(first) || !isFloor(second) ||
+                        Math.abs(floorColumn(first) - floorColumn(second)) > 1));
+                    for (var movable of movables) for (var first of firsts) for (var second of seconds) {
+                        if (movable == first || movable == second || first == second) {
+                            // Nothing is between an object and itself
+                            possible = possible && !polarity;
+                        } else {
+                            conjunction.push({polarity: polarity, relation: "between",
+                                args: [movable, first, second]});
+                        }
+                    }
+                    if (possible) formula.push(conjunction);
+                }
+            }
+            return formula;
+        };
+        if (isCounted(entity.quantifier)) {
+            return getCountedDNFFormula(movableLabels, entity.quantifier, entity.count,
+                (chosen) => relate(chosen, true), (others) => relate(others, false));
+        }
+        if (entity.quantifier == "all" || !polarity) {
+            return relate(movableLabels, polarity);
+        }
+        var interpretation : DNFFormula = [];
+        for (var label of movableLabels) {
+            interpretation = interpretation.concat(relate([label], polarity));
+        }
+        return interpretation;
+    }
+
+    /* Interprets a command to swap two objects. The goal depends on where
+    the objects are now: each should end up where the other one is, on the
+    same object or on the floor of the same column. */
+    function interpretSwap(cmd : Parser.Command, state : WorldState,
+        dialogue : Dialogue.DialogueContext) : DNFFormula {
+        var candidates : Dialogue.Candidates[];
+        if (cmd.command == "specification") {
+            // The answer picks out the first ambiguous object
+            candidates = dialogue.swap.map((group) => ({labels: group.labels,
+                quantifier: group.quantifier}));
+            var ambiguous = candidates.filter((group) =>
+                group.labels.length > 1 && group.quantifier == "the")[0];
+            var options = ambiguous.labels;
+            ambiguous.labels = matchObject(options, cmd.entity.object, state, dialogue);
+            if (ambiguous.labels.length == 0) {
+                throw new Errors.NoMatchError(Messages.text("notAnOptionGiven", dialogue.message),
+                    options, "swap");
+            }
+        } else {
+            candidates = [cmd.entity, cmd.entity2].map((entity) => {
+                var labels = matchObject(objectLabels(state), entity.object, state, dialogue);
+                if (labels.length == 0) {
+                    throw new Errors.NoMatchError(Messages.text("thereIs", Messages.describe(entity.object, "no")),
+                        [], "swap");
+                }
+                if (labels.length > 1 && (entity.quantifier == "all" || isCounted(entity.quantifier))) {
+                    throw new Errors.UnreachableGoalError(Messages.text("swapTwo"), labels, "swap");
+                }
+                return {labels: labels, quantifier: entity.quantifier};
+            });
+        }
+        for (var group of candidates) {
+            if (group.labels.length > 1 && group.quantifier == "the") {
+                dialogue.relation = "swap";
+                dialogue.swap = candidates;
+                dialogue.message = clarificationMessage(group.labels, state);
+                throw new Errors.AmbiguousReferenceError(dialogue.message, group.labels, "swap");
+            }
+        }
+        dialogue.relation = null;
+        rememberReferents(candidates.map((group) => ({labels: group.labels, plural: false})), dialogue);
+        var placed = candidates.map((group) =>
+            group.labels.filter((label) => label != state.holding));
+        if (placed.some((labels) => labels.length == 0)) {
+            throw new Errors.UnreachableGoalError(Messages.text("swapHolding"), [state.holding], "swap");
+        }
+        var interpretation : DNFFormula = [];
+        var swapped = false;
+        for (var first of placed[0]) {
+            for (var second of placed[1]) {
+                if (first != second) {
+                    swapped = true;
+                    var conjunction = getSwapConjunction(first, second, state);
+                    if (conjunction != null) interpretation.push(conjunction);
+                }
+            }
+        }
+        if (interpretation.length == 0) {
+            var swappable = placed[0].concat(placed[1]);
+            throw swapped ?
+                new Errors.PhysicsViolationError(Messages.text("notPhysical"), swappable, "swap") :
+                new Errors.UnreachableGoalError(Messages.text("cannotDoThat"), swappable, "swap");
+        }
+        return interpretation;
+    }
+
+    /**
+     * Creates the goal of swapping two objects in the world: each one should
+     * be directly on the object that the other one is on now, or on the floor
+     * of its column. If one is on the other, their order is swapped.
+     * @returns A conjunction, or null if the swapped objects could not
+     * physically be where the other ones are.
+     */
+    function getSwapConjunction(first : string, second : string,
+                                state : WorldState) : Conjunction {
+        var below = (label : string) => {
+            var column = findStack(label, state);
+            var height = findHeight(label, state.stacks[column]);
+            return height == 0 ? "floor-" + column : state.stacks[column][height - 1];
+        };
+        var swap = (label : string) =>
+            label == first ? second : label == second ? first : label;
+        var conjunction : Conjunction = [];
+        for (var pair of [[first, swap(below(second))], [second, swap(below(first))]]) {
+            var relation = isFloor(pair[1]) || state.objects[pair[1]].form != "box" ?
+                "ontop" : "inside";
+            if (!isPhysicallyCorrect(pair[0], pair[1], relation, state)) {
+                return null;
+            }
+            conjunction.push({polarity: true, relation: relation, args: pair});
+        }
+        return conjunction;
+    }
+
+    // The most objects that can be stacked at once, since every order of
+    // them is a possible stack.
+    var maxStackSize = 5;
+
+    /* Interprets a command to stack objects into a single stack, each one
+    directly on or inside the one below it, in any physically correct order. */
+    function interpretStack(cmd : Parser.Command, state : WorldState,
+        dialogue : Dialogue.DialogueContext) : DNFFormula {
+        var entity = cmd.entity;
+        var labels = matchObject(objectLabels(state), entity.object, state, dialogue);
+        if (labels.length == 0) {
+            throw new Errors.NoMatchError(Messages.text("thereIs", Messages.describe(entity.object, "no")),
+                [], "stack");
+        }
+        checkCount(entity, labels);
+        var count = entity.quantifier == "all" ? labels.length :
+            isCounted(entity.quantifier) ? entity.count : 1;
+        if (count < 2) {
+            throw new Errors.UnreachableGoalError(Messages.text("stackTwo"), labels, "stack");
+        }
+        if (count > maxStackSize) {
+            throw new Errors.UnreachableGoalError(Messages.text("stackMany", maxStackSize), labels, "stack");
+        }
+        rememberReferents([{labels: labels, plural: true}], dialogue);
+        var interpretation : DNFFormula = [];
+        for (var chosen of combinations(labels, count)) {
+            interpretation = interpretation.concat(getStackDNFFormula(chosen, state));
+        }
+        if (interpretation.length == 0) {
+            throw new Errors.PhysicsViolationError(Messages.text("notPhysical"), labels, "stack");
+        }
+        return interpretation;
+    }
+
+    /**
+     * Creates a DNFFormula with one conjunction for every physically correct
+     * order of stacking the given objects.
+     * @param The labels of the objects to stack
+     * @param The state of the world, for the objects' forms and sizes
+     * @returns A DNFFormula of "ontop" and "inside" literals
+     */
+    function getStackDNFFormula(labels : string[], state : WorldState) : DNFFormula {
+        var interpretation : DNFFormula = [];
+        var build = (below : string, rest : string[], conjunction : Conjunction) => {
+            if (rest.length == 0) {
+                interpretation.push(conjunction);
+                return;
+            }
+            for (var label of rest) {
+                var others = rest.filter((other) => other != label);
+                if (below == null) {
+                    build(label, others, conjunction);
+                    continue;
+                }
+                var relation = state.objects[below].form == "box" ? "inside" : "ontop";
+                if (isPhysicallyCorrect(label, below, relation, state)) {
+                    build(label, others, conjunction.concat([
+                        {polarity: true, relation: relation, args: [label, below]}]));
+                }
+            }
+        };
+        build(null, labels, []);
+        return interpretation;
+    }
+
+    /* Interprets a command to unstack a column, or an object and everything
+    on it, by putting each of the objects on the floor. */
+    function interpretUnstack(cmd : Parser.Command, state : WorldState,
+        dialogue : Dialogue.DialogueContext) : DNFFormula {
+        var specification = cmd.command == "specification";
+        var entity = cmd.entity;
+        var labels = matchObject(specification ? dialogue.movableLabels :
+            objectLabels(state).concat(columnLabels(state)), entity.object, state, dialogue);
+        if (labels.length == 0) {
+            throw new Errors.NoMatchError(specification ?
+                Messages.text("notAnOptionGiven", dialogue.message) :
+                Messages.text("thereIs", Messages.describe(entity.object, "no")),
+                specification ? dialogue.movableLabels : [], "unstack");
+        }
+        if (labels.length > 1 && entity.quantifier == "the") {
+            dialogue.relation = "unstack";
+            dialogue.movableLabels = labels;
+            dialogue.message = clarificationMessage(labels, state);
+            throw new Errors.AmbiguousReferenceError(dialogue.message, labels, "unstack");
+        }
+        dialogue.relation = null;
+        checkCount(entity, labels);
+        rememberReferents([{labels: labels, plural: isPlural(entity.quantifier, entity.count)}], dialogue);
+        // The objects in a column, or an object and the ones above it
+        var unstacked = (label : string) : string[] => {
+            if (label == state.holding) return [label];
+            var column = findStack(label, state);
+            var stack = state.stacks[column];
+            return isFloor(label) ? stack : stack.slice(findHeight(label, stack));
+        };
+        var onFloor = (chosen : string[]) => {
+            var objects : string[] = [];
+            for (var label of chosen) {
+                for (var object of unstacked(label)) {
+                    if (objects.indexOf(object) == -1) objects.push(object);
+                }
+            }
+            if (objects.length > state.stacks.length) {
+                throw new Errors.PhysicsViolationError(Messages.text("notEnoughLocations"), objects, "ontop");
+            }
+            return [objects.map((object) =>
+                ({polarity: true, relation: "ontop", args: [object, "floor"]}))];
+        };
+        if (isCounted(entity.quantifier)) {
+            return getCountedDNFFormula(labels, entity.quantifier, entity.count,
+                onFloor, (others) => [[]]);
+        }
+        if (entity.quantifier == "all") {
+            return onFloor(labels);
+        }
+        var interpretation : DNFFormula = [];
+        for (var label of labels) {
+            interpretation = interpretation.concat(onFloor([label]));
+        }
+        return interpretation;
+    }
+
+    /**
+     * Creates a DNFFormula where the relation must not hold between the
+     * objects. The "any" quantifier gives a choice of which objects to
+     * separate, the others require all of them to be separated.
+     * @returns A DNFFormula of negative literals. Relations that are
+     * physically impossible are always false and therefore left out.
+     */
+    function getNegativeDNFFormula(movableLabels      : string[],
+                                   relatableLabels    : string[],
+                                   relation           : string,
+                                   movableQuantifier  : string,
+                                   locationQuantifier : string,
+                                   state              : WorldState) : DNFFormula {
+        var interpretation : DNFFormula = [];
+        movableLabels = movableLabels.filter((label) => !isFloor(label));
+        var movableGroups = movableQuantifier == "any" ?
+            movableLabels.map((label) => [label]) : [movableLabels];
+        var relatableGroups = locationQuantifier == "any" ?
+            relatableLabels.map((label) => [label]) : [relatableLabels];
+        for (var movables of movableGroups) {
+            for (var relatables of relatableGroups) {
+                var conjunction : Conjunction = [];
+                for (var ml of movables) {
+                    for (var rl of relatables) {
+                        // Objects are directly inside of boxes but on top of anything else
+                        var rel = relation;
+                        if (rel == "inside" || rel == "ontop") {
+                            rel = !isFloor(rl) && state.objects[rl].form == "box" ?
+                                "inside" : "ontop";
+                        }
+                        if (isPhysicallyCorrect(ml, rl, rel, state)) {
+                            conjunction.push({polarity: false, relation: rel, args: [ml, rl]});
+                        }
+                    }
+                }
+                // A conjunction without literals would already hold
+                if (conjunction.length > 0) interpretation.push(conjunction);
+            }
+        }
+        if (interpretation.length == 0) {
+            throw new Errors.UnreachableGoalError(Messages.text("cannotDoThat"), movableLabels, relation);
+        }
+        return interpretation;
+    }
+
+    /* Answers a "where is" question with the position of every matching object. */
+    function answerWhere(cmd : Parser.Command, state : WorldState,
+        dialogue : Dialogue.DialogueContext) : string {
+        var matchingLabels = matchObject(objectLabels(state).concat(columnLabels(state)),
+            cmd.entity.object, state, dialogue);
+        if (matchingLabels.length == 0) {
+            throw new Errors.NoMatchError(Messages.text("thereIs", Messages.describe(cmd.entity.object, "no")));
+        }
+        rememberReferents([{labels: matchingLabels,
+            plural: isPlural(cmd.entity.quantifier, cmd.entity.count)}], dialogue);
+        return matchingLabels.map((label) => describePosition(label, state)).join(" ");
+    }
+
+    /* Builds the formula that a yes/no question asks about. There is no
+    clarification dialogue for questions, so "the" is read as any of the
+    matching objects. A question about something that is not physically
+    possible gets an empty formula, which is never true. */
+    function interpretQuestion(cmd : Parser.Command, state : WorldState,
+        dialogue : Dialogue.DialogueContext) : DNFFormula {
+        var labels = objectLabels(state);
+        var entityLabels = matchObject(labels, cmd.entity.object, state, dialogue);
+        var locationLabels = matchObject(["floor"].concat(labels, columnLabels(state)),
+            cmd.location.entity.object, state, dialogue);
+        if (entityLabels.length == 0) {
+            throw new Errors.NoMatchError(Messages.text("thereIs", Messages.describe(cmd.entity.object, "no")),
+                locationLabels, cmd.location.relation);
+        }
+        rememberReferents([
+            {labels: entityLabels, plural: isPlural(cmd.entity.quantifier, cmd.entity.count)},
+            {labels: locationLabels,
+             plural: isPlural(cmd.location.entity.quantifier, cmd.location.entity.count)}], dialogue);
+        try {
+            if (cmd.location.relation == "between") {
+                var references = [cmd.location.entity, cmd.location.entity2].map((reference) =>
+                    matchObject(labels.concat(columnLabels(state)), reference.object, state, dialogue));
+                return getBetweenDNFFormula(entityLabels, cmd.entity, true,
+                    cmd.location, references);
+            }
+            var relation = columnRelation(cmd.location.relation, cmd.location.entity.object);
+            return getDNFFormula(entityLabels, locationLabels, relation,
+                cmd.entity.quantifier, cmd.location.entity.quantifier, state,
+                cmd.entity.count, cmd.location.entity.count);
+        } catch(err) {
+            // A relation that breaks the physical laws can never hold, which
+            // answers the question, but other errors have to be told
+            if (err.code != "physics-violation" && err.code != "unreachable-goal") throw err;
+            return [];
+        }
+    }
+
+    /* Describes an entity with the quantifier that the user gave it, e.g.
+    "the red table" or "a box". */
+    function describeEntity(entity : Parser.Entity) : string {
+        return Messages.describe(entity.object, entity.quantifier == "any" ? "a" : entity.quantifier,
+            entity.count);
+    }
+
+    /* Answers a "how many" question by counting the matching objects. The
+    objects that a relative clause refers to have to exist, but the clause
+    itself may match nothing. */
+    function answerCount(cmd : Parser.Command, state : WorldState,
+        dialogue : Dialogue.DialogueContext) : string {
+        var obj = cmd.entity.object;
+        var labels = objectLabels(state).concat(columnLabels(state));
+        var referenced = obj.comparison != undefined ? [obj.comparison.entity] :
+            obj.object != undefined ? [obj.location.entity, obj.location.entity2] : [];
+        for (var reference of referenced.filter((entity) => entity != undefined)) {
+            if (matchObject(["floor"].concat(labels), reference.object, state, dialogue).length == 0) {
+                throw new Errors.NoMatchError(Messages.text("thereIs",
+                    Messages.describe(reference.object, "no")));
+            }
+        }
+        try {
+            var count = matchObject(labels, obj, state, dialogue).length;
+        } catch(err) {
+            // matchObject throws when a relative clause matches nothing
+            if (err.code != "no-match") throw err;
+            count = 0;
+        }
+        var location : string;
+        var located = "located";
+        if (obj.comparison != undefined) {
+            var compared = obj.comparison.entity;
+            location = Messages.comparison(obj.comparison.relation,
+                compared == undefined ? undefined : describeEntity(compared));
+            obj = obj.object;
+        } else if (obj.object != undefined) {
+            var entity = obj.location.entity;
+            location = Messages.relation(obj.location.relation) + " " + [entity, obj.location.entity2]
+                .filter((entity) => entity != undefined).map(describeEntity).join(Messages.text("and"));
+            if (obj.location.polarity == false) {
+                located = "notLocated";
+            }
+            obj = obj.object;
+        }
+        var objects = count == 1 ? Messages.describe(obj, "one") :
+            count == 0 ? Messages.describe(obj, "none") : Messages.describe(obj, "number", count);
+        if (location != undefined) {
+            objects = Messages.text(located, objects, location);
+        }
+        return Messages.text(count == 1 ? "thereIs" : "thereAre", objects);
+    }
+
+    // Returns the labels of all objects in the world, including the one held.
+    function objectLabels(state : WorldState) : string[] {
+        var labels : string[] = Array.prototype.concat.apply([], state.stacks);
+        if (state.holding != null)
+            labels.push(state.holding);
+        return labels;
+    }
+
+    // Checks if a quantified mention refers to several objects.
+    function isPlural(quantifier : string, count : number) : boolean {
+        return quantifier == "all" || (isCounted(quantifier) && count > 1);
+    }
+
+    // Remembers the objects that an utterance referred to, for later pronouns.
+    function rememberReferents(referents : Dialogue.Referent[],
+        dialogue : Dialogue.DialogueContext) {
+        referents = referents.map((referent) => ({plural: referent.plural,
+            labels: referent.labels.filter((label) => !isFloor(label))}));
+        referents = referents.filter((referent) => referent.labels.length > 0);
+        if (referents.length > 0) {
+            dialogue.referents.push(referents);
+        }
+    }
+
+    /* Resolves "it" or "them" to the most recently mentioned objects of the
+    same number. An object that was only mentioned indefinitely, as in "take a
+    ball", is the held one if possible. Without any earlier mention, "it" is
+    the object that the robot is holding. */
+    function resolvePronoun(pronoun : string, state : WorldState,
+        dialogue : Dialogue.DialogueContext) : string[] {
+        var plural = pronoun == "them";
+        for (var i = dialogue.referents.length - 1; i >= 0; i--) {
+            for (var referent of dialogue.referents[i]) {
+                if (referent.plural != plural) continue;
+                if (!plural && referent.labels.indexOf(state.holding) != -1) {
+                    return [state.holding];
+                }
+                return referent.labels;
+            }
+        }
+        if (!plural && state.holding != null) {
+            return [state.holding];
+        }
+        throw new Errors.NoMatchError(Messages.text("unknownPronoun", Messages.describe({pronoun: pronoun}, "the")));
+    }
+
+    // Returns the labels of the floor in every column, i.e. "floor-N".
+    function columnLabels(state : WorldState) : string[] {
+        return state.stacks.map((stack, n) => "floor-" + n);
+    }
+
+    // Checks if a label is the floor, or the floor in a column ("floor-N").
+    export function isFloor(label : string) : boolean {
+        return label == "floor" || floorColumn(label) != null;
+    }
+
+    // Returns the column N of a "floor-N" label, or null for any other label.
+    export function floorColumn(label : string) : number {
+        var match = /^floor-(\d+)$/.exec(label);
+        return match == null ? null : parseInt(match[1]);
+    }
+
+    /* Relations to a column mean anywhere in its stack, and relations to an
+    empty spot mean directly on the floor there. */
+    function columnRelation(relation : string, target : Parser.Object) : string {
+        if (relation != "inside" && relation != "ontop") return relation;
+        if (target.form == "column") return "above";
+        if (target.form == "emptyspot") return "ontop";
+        return relation;
+    }
+
+    /* Checks if an object is related to a column, which is given by the
+    label of its floor. */
+    function checkColumnRelation(label : string, relation : string,
+        column : string, state : WorldState) : boolean {
+        var stackIndex = findStack(label, state);
+        var columnIndex = floorColumn(column);
+        switch(relation) {
+          case "inside":
+          case "above":
+            return stackIndex == columnIndex;
+          case "ontop":
+            return stackIndex == columnIndex &&
+              findHeight(label, state.stacks[stackIndex]) == 0;
+          case "leftof":
+            return stackIndex < columnIndex;
+          case "rightof":
+            return stackIndex > columnIndex;
+          case "beside":
+            return Math.abs(stackIndex - columnIndex) == 1;
+        }
+        return false;
     }
 
     /* Creates a map from object ids to DNFFormulas. */
@@ -268,18 +1126,24 @@ Top-level function for the Interpreter. It calls `interpretCommand` for each pos
 
     /* Builds a clarification message for the user. */
     function clarificationMessage(labels: string[], state: WorldState): string {
-        var message = "Do you mean the ";
-        var difference = "";
-        for (var labelIndex = 0; labelIndex < labels.length; labelIndex++) {
-            var object: Parser.Object = state.objects[labels[labelIndex]];
-            message += findDifference(labels[labelIndex], labels, state);
-            if (labelIndex < labels.length - 1) {
-                message += " or the ";
-            }
+        if (labels.every(isFloor)) {
+            if (labels.length > 2)
+                return Messages.text("whichColumn", labels.length);
+            return Messages.text("doYouMean", labels.map((label) =>
+                minimalInfo(label, state)).join(Messages.text("or")));
+        }
+        if (labels.length > 2) {
+            return whichObject(labels, state);
         }
+        return Messages.text("doYouMean", labels.map((label) =>
+            findDifference(label, labels, state)).join(Messages.text("or")));
+    }
 
-        message += "?";
-        return message;
+    /* Asks which one of several objects the user means. */
+    function whichObject(labels : string[], state : WorldState) : string {
+        return Messages.text("whichObject",
+            Messages.describe(commonDescription(labels.map((label) =>
+                state.objects[label])), "number", labels.length));
     }
 
     /* Determines the difference between a given object and all other given objects */
@@ -288,8 +1152,7 @@ Top-level function for the Interpreter. It calls `interpretCommand` for each pos
         state: WorldState): string {
 
         if (labels.length > 2) {
-            preMessage = "There are " + labels.length + " " + findSimilarities(labels, true, state) + ", which one do you mean?";
-            throw preMessage;
+            throw new Errors.AmbiguousReferenceError(whichObject(labels, state), labels);
         }
 
         var object = state.objects[label];
@@ -300,7 +1163,6 @@ Top-level function for the Interpreter. It calls `interpretCommand` for each pos
             form: true
         }
 
-        var difference = "";
         for (var label of labels) {
             var compareObject = state.objects[label];
             if (compareObject != object) {
@@ -317,55 +1179,244 @@ Top-level function for the Interpreter. It calls `interpretCommand` for each pos
         }
 
         if (uniqueAttributes.form)
-            return difference += object.form;
+            return Messages.describe({form: object.form}, "the");
         if (uniqueAttributes.color)
-            return difference += object.color + " " + object.form;
+            return Messages.describe({color: object.color, form: object.form}, "the");
         if (uniqueAttributes.size)
-            return difference += object.size + " " + object.form;
+            return Messages.describe({size: object.size, form: object.form}, "the");
 
-        throw "Something went wrong, no difference found.";
+        throw new Errors.AmbiguousReferenceError(Messages.text("noDifference"), labels);
     }
 
-    function findSimilarities(labels: string[],
-                              plural : boolean,
-                              state: WorldState): string {
-        var sameForm = true;
-        var sameColor = true;
-        var sameSize = true;
-        var obj1 = state.objects[labels[0]];
-        var message = "";
-        for (var label of labels) {
-            var obj2 = state.objects[label];
-            if(obj1.form != obj2.form){
-                sameForm = false;
+    // Checks if a quantifier is one of the counted ones, e.g. "at least two".
+    function isCounted(quantifier : string) : boolean {
+        return quantifier == "atleast" || quantifier == "atmost" ||
+               quantifier == "exactly";
+    }
+
+    // Returns all ways of choosing `count` labels from the given list.
+    function combinations(labels : string[], count : number) : string[][] {
+        if (count == 0) return [[]];
+        var result : string[][] = [];
+        for (var i = 0; i <= labels.length - count; i++) {
+            for (var rest of combinations(labels.slice(i + 1), count - 1)) {
+                result.push([labels[i]].concat(rest));
             }
-            if(obj1.color != obj2.color){
-                sameColor = false;
+        }
+        return result;
+    }
+
+    /**
+     * Converts a CNFFormula into a DNFFormula, by choosing one literal of
+     * every disjunction in every possible way. A choice that contradicts an
+     * earlier one is dropped as soon as it is made, together with every
+     * conjunction that it would have led to, and conjunctions that have
+     * already been found are left out.
+     * @throws A GoalTooLargeError if there are more than `maxConjunctions`
+     * conjunctions, or if more than `maxChoices` literals are tried before
+     * they are all found. Both limits are changed with `setGoalLimits`.
+     */
+    export function cnfToDNF(cnf : CNFFormula) : DNFFormula {
+        // The shortest disjunctions are chosen from first, since they
+        // leave the fewest choices for contradictions to prune.
+        var disjunctions = cnf.slice().sort((a, b) => a.length - b.length);
+        var dnf : DNFFormula = [];
+        var found : {[key:string] : boolean} = {};
+        var chosen : Conjunction = [];
+        var choices = 0;
+        var lits : Literal[] = [].concat.apply([], cnf);
+        function tooLarge(message : string) : Errors.GoalTooLargeError {
+            return new Errors.GoalTooLargeError(message, goalSubjects(lits),
+                lits.length ? lits[0].relation : null);
+        }
+
+        function choose(i : number) : void {
+            if (i == disjunctions.length) {
+                var key = chosen.map(stringifyLiteral).sort().join(" & ");
+                if (found[key]) return;
+                if (dnf.length == maxConjunctions) {
+                    throw tooLarge(Messages.text("goalTooLarge", maxConjunctions));
+                }
+                found[key] = true;
+                dnf.push(chosen.slice());
+                return;
             }
-            if(obj1.size != obj2.size){
-                sameSize = false;
+            for (var lit of disjunctions[i]) {
+                if (++choices > maxChoices) {
+                    throw tooLarge(Messages.text("goalTooHard"));
+                }
+                if (chosen.some((other) => conflict(lit, other) != null)) continue;
+                var repeated = chosen.some((other) => stringifyLiteral(other) == stringifyLiteral(lit));
+                if (!repeated) chosen.push(lit);
+                choose(i + 1);
+                if (!repeated) chosen.pop();
             }
         }
-        if(sameSize){
-            message += obj1.size + " ";
+        choose(0);
+        return dnf;
+    }
+
+    /**
+     * Explains why a conjunction can never hold, by the first two of its
+     * literals that contradict each other.
+     * @returns The explanation, or null if no two literals contradict each other.
+     */
+    export function explainConflict(conjunction : Conjunction, state : WorldState) : string {
+        for (var i = 0; i < conjunction.length; i++) {
+            for (var j = i + 1; j < conjunction.length; j++) {
+                var lit1 = conjunction[i];
+                var lit2 = conjunction[j];
+                var key = conflict(lit1, lit2);
+                if (key == null) continue;
+                var subject = Messages.capitalize(minimalInfo(lit1.args[0], state));
+                var object = lit1.args.length > 1 ? minimalInfo(lit1.args[1], state) : null;
+                switch (key) {
+                    case "conflictPolarity":
+                        return Messages.text(key, subject, Messages.relation(lit1.relation), object);
+                    case "conflictSamePlace":
+                        return Messages.text(key, subject, minimalInfo(lit2.args[0], state),
+                            Messages.relation(lit1.relation), object);
+                    case "conflictBothWays":
+                        // The second relation as seen from the first object
+                        var relation = lit2.args[0] == lit1.args[0] ? lit2.relation :
+                            inverseRelations[lit2.relation];
+                        if (relation == undefined) {
+                            // "On top of" and "inside" have no inverse to say it with
+                            return Messages.text("conflictEachOther", subject, Messages.relation(lit1.relation),
+                                object, Messages.relation(lit2.relation), minimalInfo(lit1.args[0], state));
+                        }
+                        return Messages.text(key, subject, Messages.relation(lit1.relation),
+                            Messages.relation(relation), object);
+                }
+                return Messages.text(key, subject);
+            }
         }
-        if(sameColor){
-            message += obj1.color + " ";
+        return null;
+    }
+
+    // The relation that holds the other way around, e.g. b is to the right
+    // of a when a is to the left of b.
+    var inverseRelations : {[relation:string] : string} = {
+        leftof: "rightof", rightof: "leftof", above: "under", under: "above",
+    };
+
+    /** Checks if some two literals of a conjunction can never hold at the
+     * same time. */
+    export function hasConflict(conjunction : Conjunction) : boolean {
+        return conjunction.some((lit1, i) =>
+            conjunction.slice(i + 1).some((lit2) => conflict(lit1, lit2) != null));
+    }
+
+    /* Checks if two literals can never hold at the same time: a literal and
+    its negation, two objects held at once, an object directly on or in two
+    places, two objects directly on or in the same object unless it is the
+    floor, or two objects that are each on the same side of the other. The
+    floor of a column is a part of the floor, not another place.
+    Returns the key of the message that explains why, or null. */
+    function conflict(lit1 : Literal, lit2 : Literal) : string {
+        if (lit1.relation == lit2.relation && lit1.args.join() == lit2.args.join()) {
+            return lit1.polarity == lit2.polarity ? null : "conflictPolarity";
         }
-        if(sameForm){
-            if(plural){
-              message += Parser.getPlural(obj1.form)
-            } else {
-              message += obj1.form;
+        if (!lit1.polarity || !lit2.polarity) return null;
+        if (lit1.relation == "holding" && lit2.relation == "holding") return "holdOne";
+        var directly = ["inside", "ontop"];
+        if (directly.indexOf(lit1.relation) != -1 && directly.indexOf(lit2.relation) != -1) {
+            var floors = [lit1.args[1], lit2.args[1]];
+            if (lit1.args[0] == lit2.args[0] && !(floors.indexOf("floor") != -1 &&
+                floors.every(isFloor))) return "conflictOnePlace";
+            if (lit1.args[1] == lit2.args[1] && lit1.args[1] != "floor") return "conflictSamePlace";
+        }
+        var order1 = orderOf(lit1);
+        var order2 = orderOf(lit2);
+        if (order1 != null && order2 != null && order1.axis == order2.axis &&
+            order1.first == order2.second && order1.second == order2.first) {
+            return "conflictBothWays";
+        }
+        return null;
+    }
+
+    /* Returns the order that a literal puts its two objects in, from left
+    to right or from top to bottom, or null if it does not order them. */
+    function orderOf(lit : Literal) : {axis : string; first : string; second : string} {
+        var a = lit.args[0];
+        var b = lit.args[1];
+        switch (lit.relation) {
+            case "leftof":  return {axis: "horizontal", first: a, second: b};
+            case "rightof": return {axis: "horizontal", first: b, second: a};
+            case "ontop":
+            case "inside":
+            case "above":   return {axis: "vertical", first: a, second: b};
+            case "under":   return {axis: "vertical", first: b, second: a};
+        }
+        return null;
+    }
+
+    // Returns the objects that the literals are about, i.e. their first arguments.
+    function goalSubjects(literals : Literal[]) : string[] {
+        var labels : string[] = [];
+        for (var lit of literals) {
+            if (labels.indexOf(lit.args[0]) == -1) labels.push(lit.args[0]);
+        }
+        return labels;
+    }
+
+    // Combines two DNFFormulas into the DNFFormula of their conjunction.
+    function conjoin(formula1 : DNFFormula, formula2 : DNFFormula) : DNFFormula {
+        var result : DNFFormula = [];
+        for (var conjunction1 of formula1) {
+            for (var conjunction2 of formula2) {
+                result.push(conjunction1.concat(conjunction2));
             }
-        } else{
-            if(plural){
-              message += "objects";
-            } else {
-              message += "object";
+        }
+        return result;
+    }
+
+    /**
+     * Creates a DNFFormula for a counted quantifier, by choosing that many of
+     * the given labels in every possible way.
+     * @param The labels to choose from
+     * @param The counted quantifier, i.e. "atleast", "atmost" or "exactly"
+     * @param The number of labels to choose
+     * @param Creates the formula for when the chosen labels are related
+     * @param Creates the formula for when the given labels are not related
+     */
+    function getCountedDNFFormula(labels     : string[],
+                                  quantifier : string,
+                                  count      : number,
+                                  related    : (chosen : string[]) => DNFFormula,
+                                  unrelated  : (others : string[]) => DNFFormula)
+                                  : DNFFormula {
+        if (count < 1) {
+            throw new Errors.NoMatchError(Messages.text("countTooSmall"), labels);
+        }
+        var interpretation : DNFFormula = [];
+        if (quantifier == "atmost") {
+            // At most N are related when all but N of them are not.
+            if (labels.length <= count) return [[]];
+            for (var others of combinations(labels, labels.length - count)) {
+                interpretation = interpretation.concat(unrelated(others));
             }
+            return interpretation;
         }
-        return message;
+        // The first reason why a choice cannot be related, which is told if
+        // no choice can
+        var firstError : Error = null;
+        for (var chosen of combinations(labels, count)) {
+            try {
+                var formula = related(chosen);
+            } catch(err) {
+                if (err.code == "goal-too-large") throw err;
+                firstError = firstError || err;
+                continue;
+            }
+            if (quantifier == "exactly") {
+                var rest = labels.filter((label) => chosen.indexOf(label) == -1);
+                formula = conjoin(formula, unrelated(rest));
+            }
+            interpretation = interpretation.concat(formula);
+        }
+        if (interpretation.length == 0 && firstError != null) throw firstError;
+        return interpretation;
     }
 
     /**
@@ -374,6 +1425,10 @@ Top-level function for the Interpreter. It calls `interpretCommand` for each pos
      * @param The labels of the objects that could be moved
      * @param The labels of the objects that the movable objects could be related to
      * @param The relation we want to achieve between the movable and relatable objects
+     * @param The number of objects to move, for counted movable quantifiers
+     * @param The number of objects to relate to, for counted location quantifiers
+     * @param Checks if a movable object can be related to a relatable one, when
+     * only some pairs of them can, e.g. for "a box of the same color"
      * @returns A DNFFormula
      * @throws An error when no valid interpretations can be found
      */
@@ -382,10 +1437,20 @@ Top-level function for the Interpreter. It calls `interpretCommand` for each pos
                            relation           : string,
                            movableQuantifier  : string,
                            locationQuantifier : string,
-                           state           : WorldState) : DNFFormula {
+                           state           : WorldState,
+                           movableCount?      : number,
+                           locationCount?     : number,
+                           paired?            : (movable : string, relatable : string) => boolean)
+                           : DNFFormula {
         var interpretation: DNFFormula = [];
         // We cannot move or pick up the floor
-        movableLabels = movableLabels.filter((label) => label != "floor");
+        movableLabels = movableLabels.filter((label) => !isFloor(label));
+
+        // Checks if a movable object can be related to a relatable one.
+        function canRelate(movable : string, relatable : string) : boolean {
+          return isPhysicallyCorrect(movable, relatable, relation, state) &&
+            (paired == undefined || paired(movable, relatable));
+        }
 
         function disjunctionToString(disjunction: Literal[]): string {
           var str : string = "";
@@ -418,7 +1483,7 @@ Top-level function for the Interpreter. It calls `interpretCommand` for each pos
             var l1 = labels1[i];
             for(var j = 0; j < labels2.length; j++) {
               var l2 = labels2[j];
-                if(isPhysicallyCorrect(l1, l2, relation, state)) {
+                if(canRelate(l1, l2)) {
                   var lit : Literal = {polarity: true, relation: relation,
                     args: [l1, l2]};
                   dnf.push([lit]);
@@ -454,22 +1519,23 @@ Top-level function for the Interpreter. It calls `interpretCommand` for each pos
             for(var j = 0; j < labels2.length; j++) {
               var l2 = labels2[j];
               if(reversedLocation) {
-                if(isPhysicallyCorrect(l2, l1, relation, state)) {
+                if(canRelate(l2, l1)) {
                   var lit : Literal =
                       {polarity: true, relation: relation, args: [l2, l1]};
                   disjunction.push(lit);
                 }
 
               } else {
-                if(isPhysicallyCorrect(l1, l2, relation, state)) {
+                if(canRelate(l1, l2)) {
                   var lit : Literal =
                       {polarity: true, relation: relation, args: [l1, l2]};
                   disjunction.push(lit);
                 }
               }
             }
-            if(disjunction.length > 0)
-              cnf.push(disjunction);
+            // An object that cannot be related to any other one makes the
+            // whole goal impossible, so its empty disjunction is kept
+            cnf.push(disjunction);
           }
           return cnf;
         }
@@ -484,7 +1550,7 @@ Top-level function for the Interpreter. It calls `interpretCommand` for each pos
             var l1 = labels1[i];
             for(var j = 0; j < labels2.length; j++) {
               var l2 = labels2[j];
-              if(isPhysicallyCorrect(l1, l2, relation, state)) {
+              if(canRelate(l1, l2)) {
                 var lit : Literal = {polarity: true, relation: relation,
                   args: [l1, l2]};
                 conjunction.push(lit);
@@ -494,44 +1560,30 @@ Top-level function for the Interpreter. It calls `interpretCommand` for each pos
           return conjunction;
         }
 
-        function conjunctionToDisjunction(
-          conjunction : Literal[][]) : DNFFormula {
-            var dnf : DNFFormula = [];
-            var formula : Literal [] = [];
-            dfs(0, formula);
-
-            function dfs(i: number, formula: Literal[]) {
-              if (i < conjunction.length) {
-                for (var j = 0; j < conjunction[i].length; j++) {
-                  var formulaClone: Literal[] = [];
-                  for (var f of formula) formulaClone.push(f);
-                  formulaClone.push(conjunction[i][j])
-                  dfs(i + 1, formulaClone);
-                }
-              } else {
-                if (formula[0].relation == "inside" ||
-                  formula[0].relation == "ontop") {
-                  for (var i1 = 0; i1 < formula.length; i1++){
-                    for (var i2 = i1 + 1; i2 < formula.length; i2++){
-                      if (formula[i1].args[1] == formula[i2].args[1])
-                        return;
-                    }
-                  }
-                }
-                dnf.push(formula);
-              }
-            }
-            return dnf;
+        //Moving a number of objects, or relating to a number of objects, is
+        //like moving every one of the chosen objects.
+        if(isCounted(movableQuantifier)) {
+          interpretation = getCountedDNFFormula(movableLabels, movableQuantifier, movableCount,
+            (chosen) => getDNFFormula(chosen, relatableLabels, relation,
+                                      "all", locationQuantifier, state, undefined, locationCount, paired),
+            (others) => getNegativeDNFFormula(others, relatableLabels, relation,
+                                              "all", "all", state));
+        }
+        else if(isCounted(locationQuantifier)) {
+          interpretation = getCountedDNFFormula(relatableLabels, locationQuantifier, locationCount,
+            (chosen) => getDNFFormula(movableLabels, chosen, relation,
+                                      movableQuantifier, "all", state, undefined, undefined, paired),
+            (others) => getNegativeDNFFormula(movableLabels, others, relation,
+                                              "all", "all", state));
         }
-
         //Moving every every object of some type
-        if(movableQuantifier == "all") {
+        else if(movableQuantifier == "all") {
           //To any location of some type.
           if(locationQuantifier == "any") {
             var cnf : Literal[][] = [];
             //Build conjunction of disjunctions and convert to DNF.
             cnf = buildCNF(movableLabels, relatableLabels, false);
-            interpretation = conjunctionToDisjunction(cnf);
+            interpretation = cnfToDNF(cnf);
           } else if(relation == "holding") {
               //If only one such object exists, pick it up.
               var ml = movableLabels[0];
@@ -552,7 +1604,7 @@ Top-level function for the Interpreter. It calls `interpretCommand` for each pos
             var cnf: Literal[][] = [];
             cnf = buildCNF(relatableLabels, movableLabels, true);
             //Convert to DNF before returning.
-            interpretation = conjunctionToDisjunction(cnf);
+            interpretation = cnfToDNF(cnf);
 
             //Build disjunction
           } else {
@@ -571,12 +1623,36 @@ Top-level function for the Interpreter. It calls `interpretCommand` for each pos
         }
 
         if (interpretation.length == 0) {
-            throw "I cannot do that.";
+            throw explainImpossible(movableLabels, relatableLabels, relation, state, paired) ||
+                new Errors.UnreachableGoalError(Messages.text("cannotDoThat"), movableLabels, relation);
         } else {
             return interpretation;
         }
     }
 
+    /* Explains why objects cannot be related, by the rule of the physical
+    laws that forbids the first pair of them that the rest of the command
+    allows, or returns null if no rule does. */
+    function explainImpossible(movableLabels : string[], relatableLabels : string[],
+        relation : string, state : WorldState,
+        paired? : (movable : string, relatable : string) => boolean) : Errors.PhysicsViolationError {
+        if (relation != "inside" && relation != "ontop") return null;
+        var rules = Physics.rules(state);
+        for (var movable of movableLabels) {
+            for (var relatable of relatableLabels) {
+                if (movable == relatable || (paired != undefined && !paired(movable, relatable))) continue;
+                var object = isFloor(movable) ? getFloor() : state.objects[movable];
+                var support = isFloor(relatable) ? getFloor() : state.objects[relatable];
+                var rule = Physics.violatedRule(object, support, relation, rules);
+                if (rule != null) {
+                    return new Errors.PhysicsViolationError(Physics.explain(rule, object, support),
+                        [movable, relatable], relation);
+                }
+            }
+        }
+        return null;
+    }
+
     // Returns the objectdefinition of the floor.
     function getFloor(): ObjectDefinition {
         return {
@@ -594,97 +1670,212 @@ Top-level function for the Interpreter. It calls `interpretCommand` for each pos
      * @returns A subset of param labels, such that they match the target
      */
     function matchObject(
-        labels : string[], target : Parser.Object, state: WorldState) : string[]{
+        labels : string[], target : Parser.Object, state: WorldState,
+        dialogue : Dialogue.DialogueContext) : string[]{
+
+        if(target.pronoun != undefined) {
+          return resolvePronoun(target.pronoun, state, dialogue).filter((label) =>
+            labels.indexOf(label) != -1);
+        }
+
+        if(target.alternatives != undefined) {
+          var matches : string[] = [];
+          for(var alternative of target.alternatives) {
+            for(var label of matchObject(labels, alternative, state, dialogue)) {
+              if(matches.indexOf(label) == -1) matches.push(label);
+            }
+          }
+          return matches;
+        }
+
+        if(target.superlative != undefined) {
+          var unranked : Parser.Object = {object: target.object, location: target.location,
+            comparison: target.comparison, size: target.size, color: target.color, form: target.form,
+            column: target.column, alternatives: target.alternatives};
+          return rankSuperlative(matchObject(labels, unranked, state, dialogue),
+            target.superlative, state);
+        }
+
+        if(target.comparison != undefined) {
+          return matchComparison(labels, target, state, dialogue);
+        }
 
         var possibleTargets : string[] = [];
         var continueRecursivly = target.object != undefined;
 
+        // "The floor in column N" is the floor of that column
+        if(continueRecursivly && target.object.form == "floor" &&
+           target.location.entity.object.form == "column") {
+          return matchObject(labels.filter((label) => floorColumn(label) != null),
+            target.location.entity.object, state, dialogue);
+        }
+
         if(continueRecursivly){
             var rel  = target.location.relation;
             var obj1 = target.object;
             var obj2 = target.location.entity.object;
             var quantifier = target.location.entity.quantifier;
-            var matchingObjs = matchObject(labels, target.object, state);
+            var polarity = target.location.polarity != false;
+            var matchingObjs = matchObject(labels, target.object, state, dialogue);
             for (var j = 0; j < matchingObjs.length; j++){
                 var matchingObj = matchingObjs[j];
-                if(checkRelation(matchingObj, target.location, state)){
+                if(checkRelation(matchingObj, target.location, state, dialogue) == polarity){
                     possibleTargets.push(matchingObj);
                 }
             }
         } else { // Match object specifications
+          if(target.column != undefined &&
+             (target.column < 0 || target.column >= state.stacks.length)) {
+            throw new Errors.NoMatchError(Messages.text("noColumn", target.column + 1));
+          }
           return filterLabels(labels, target.size,
-                 target.color, target.form, state);
+                 target.color, target.form, state).filter((label) =>
+                 target.column == undefined || floorColumn(label) == target.column);
         }
         if(possibleTargets.length == 0) {
-          var f1 = (obj1.form == "anyform")? "object " : obj1.form + " ";
-          if(quantifier == "all") {
-            var q = quantifier;
-            var v = "are";
-          } else {
-            var q = "a";
-            var v = "is"
-          }
-          var description1 : string = Parser.minimalDescription(obj1, quantifier);
-          var description2 : string = Parser.minimalDescription(obj2, quantifier);
-          var prettyRel = Parser.prettifyRelation(rel);
-
-            throw "There " + v + " no " + description1 + " " + prettyRel + " " +
-                q + " " + description2 + "."
+          var all = quantifier == "all";
+          throw new Errors.NoMatchError(Messages.text(all ? "thereAre" : "thereIs",
+            Messages.text(polarity ? "located" : "notLocated",
+              Messages.describe(obj1, all ? "none" : "no"),
+              Messages.relation(rel) + " " + Messages.describe(obj2, all ? "all" : "a") +
+              (target.location.entity2 == undefined ? "" : Messages.text("and") +
+                Messages.describe(target.location.entity2.object, "a")))), matchingObjs, rel);
         } else {
             return possibleTargets;
         }
     }
 
+    /* Finds the labels that match an object which is compared with other
+    objects, e.g. "the ball that is smaller than the red table". With the
+    quantifier "all" it has to compare so with every one of them. */
+    function matchComparison(
+        labels : string[], target : Parser.Object, state : WorldState,
+        dialogue : Dialogue.DialogueContext) : string[] {
+
+      var comparison = target.comparison;
+      if(comparison.entity == undefined) {
+        // Only the objects of a command can be compared with each other
+        throw new Errors.NoMatchError(Messages.capitalize(Messages.text("comparedWithWhat",
+          Messages.comparison(comparison.relation))), [], comparison.relation);
+      }
+      var matchingObjs = matchObject(labels, target.object, state, dialogue);
+      var others = matchObject(objectLabels(state), comparison.entity.object, state, dialogue);
+      // "The" refers to exactly one object, as in a location
+      if(comparison.entity.quantifier == "the") {
+        if(others.length == 0) {
+          throw new Errors.NoMatchError(Messages.text("thereIs",
+            Messages.describe(comparison.entity.object, "no")), matchingObjs, comparison.relation);
+        }
+        if(others.length > 1) {
+          throw new Errors.AmbiguousReferenceError(clarificationMessage(others, state), others,
+            comparison.relation);
+        }
+      }
+      var all = comparison.entity.quantifier == "all";
+      var matches = matchingObjs.filter((label) => {
+        var holds = (other : string) => compares(label, other, comparison.relation, state);
+        return all ? others.length > 0 && others.every(holds) : others.some(holds);
+      });
+      if(matches.length == 0) {
+        throw new Errors.NoMatchError(Messages.text(all ? "thereAre" : "thereIs",
+          Messages.text("located", Messages.describe(target.object, all ? "none" : "no"),
+            Messages.comparison(comparison.relation, describeEntity(comparison.entity)))), matchingObjs,
+          comparison.relation);
+      }
+      return matches;
+    }
+
+    /* Checks if an object compares with another one as a comparison says,
+    e.g. "smaller" when it is small and the other one is large. An object
+    is never compared with itself, nor with the floor. */
+    function compares(label1 : string, label2 : string, comparison : string,
+        state : WorldState) : boolean {
+
+      if(label1 == label2 || isFloor(label1) || isFloor(label2)) return false;
+      var object1 = state.objects[label1];
+      var object2 = state.objects[label2];
+      switch(comparison) {
+        case "smaller":
+          return object1.size == "small" && object2.size == "large";
+        case "larger":
+          return object1.size == "large" && object2.size == "small";
+        case "samecolor":
+          return object1.color == object2.color;
+        case "samesize":
+          return object1.size == object2.size;
+        case "sameform":
+          return object1.form == object2.form;
+      }
+      return false;
+    }
+
+    /* Returns the comparison of an object that does not say what it is
+    compared with, e.g. "a box of the same color", or undefined. */
+    function implicitComparison(object : Parser.Object) : Parser.Comparison {
+      return object.comparison != undefined && object.comparison.entity == undefined ?
+        object.comparison : undefined;
+    }
+
+    /* Keeps the labels that rank best for a superlative such as "leftmost",
+    using the positions of the objects in the world. Ties keep all of them. */
+    function rankSuperlative(labels : string[], superlative : string,
+        state : WorldState) : string[] {
+
+      var placed = labels.filter((label) => findStack(label, state) != null);
+      var stackOf = (label : string) => findStack(label, state);
+      var heightOf = (label : string) => findHeight(label, state.stacks[stackOf(label)]);
+      var sizeOf = (label : string) => state.objects[label].size == "large" ? 1 : 0;
+      var score : (label : string) => number;
+
+      switch(superlative) {
+        case "leftmost":
+          score = (label) => -stackOf(label);
+          break;
+        case "rightmost":
+          score = stackOf;
+          break;
+        case "highest":
+          score = heightOf;
+          break;
+        case "lowest":
+          score = (label) => -heightOf(label);
+          break;
+        case "top":
+          return placed.filter((label) =>
+            heightOf(label) == state.stacks[stackOf(label)].length - 1);
+        case "bottom":
+          return placed.filter((label) => heightOf(label) == 0);
+        case "largest":
+          placed = labels.filter((label) => !isFloor(label));
+          score = sizeOf;
+          break;
+        case "smallest":
+          placed = labels.filter((label) => !isFloor(label));
+          score = (label) => -sizeOf(label);
+          break;
+      }
+      var best = Math.max.apply(null, placed.map(score));
+      return placed.filter((label) => score(label) == best);
+    }
+
     /* Throws an error if the relation between object1 and object2 breaks any
-    physical laws. */
+    physical laws of the world. The error is about the given labels. */
     function validateRelation(object1 : Parser.Object, object2 : Parser.Object,
-        rel : string, quantifier : string) {
-
-          var f1 = object1.form;
-          var f2 = object2.form;
-          var s1 = object1.size;
-          var s2 = object2.size;
+        rel : string, quantifier : string, state : WorldState, labels : string[]) {
 
-          switch(rel) {
-            case "inside":
-              if(f2 != "box") {
-                throw "An object can only be inside of a box."
-              }
-              if ((f1 == "box" || f1 == "pyramid" || f1 == "plank") &&
-                  (s2 == s1 || s2 == "small") && (s1 != null || s2 != null))
-                  throw "Boxes can only contain a " + f1 + " of smaller size than itself."
-              if (s2 == "small" && s1 == "large")
-                  throw "Small boxes cannot contain large objects."
-              if(quantifier == "all") {
-                var obj = (f1 == "anyform") ? "n object" : " " + f1;
-                throw "A" + obj + " cannot be inside of several boxes."
-              }
-              break;
-            case "ontop":
-              if (f2 == "box") {
-                  var tempF = Parser.getPlural(f1);
-                  tempF = tempF.charAt(0).toUpperCase() + tempF.slice(1);
-                  throw tempF +" cannot be on top of a box, only inside it."
-              }
-              if (s2 == "small" && s1 == "large") {
-                  var tempF1 = Parser.getPlural(f1);
-                  var tempF2 = Parser.getPlural(f2);
-                  throw "Small " + tempF2 + " cannot support large " + tempF1 + "."
-              }
-              if (f2 == "ball")
-                  throw "Balls cannot support other objects."
-              if (f1 == "ball" && f2 != "floor" && f2 != "box")
-                  throw "Balls must be in boxes or on the floor."
-              if (s1 == "small" && f1 == "box" && s2 == "small" &&
-                  (f2 == "brick" || f2 == "pyramid"))
-                  throw "Small boxes cannot be supported by small bricks or pyramids."
-              if (s1 == "large" && f1 == "box" &&
-                  s2 == "large" && f2 == "pyramid")
-                  throw "Large boxes cannot be supported by large pyramids."
-              if(quantifier == "all") {
-                throw "An object can only be directly on top of one other object."
-              }
-              break;
+          if (rel == "inside" || rel == "ontop") {
+            var rule = Physics.violatedRule(object1, object2, rel, Physics.rules(state));
+            if (rule != null) {
+              throw new Errors.PhysicsViolationError(
+                Physics.explain(rule, object1, object2), labels, rel);
+            }
+          }
+          if (quantifier == "all" && rel == "inside") {
+            throw new Errors.PhysicsViolationError(Messages.text("severalBoxes",
+              Messages.capitalize(Messages.describe({form: object1.form}, "a"))), labels, rel);
+          }
+          if (quantifier == "all" && rel == "ontop") {
+            throw new Errors.PhysicsViolationError(Messages.text("onlyOneBelow"), labels, rel);
           }
     }
 
@@ -694,6 +1885,14 @@ Top-level function for the Interpreter. It calls `interpretCommand` for each pos
       var filteredLabels: string[] = [];
       for (var i = labels.length - 1; i >= 0; i--) {
         var label = labels[i];
+        var column = floorColumn(label);
+        // the floor of a column is only described as a column or an empty spot
+        if (column != null) {
+          if (form == "column" ||
+              (form == "emptyspot" && state.stacks[column].length == 0))
+            filteredLabels.push(label);
+          continue;
+        }
         var object = label == "floor" ? getFloor() : state.objects[label];
         // floor is not an "object"
         if (label == "floor" && form == "anyform") continue;
@@ -710,10 +1909,21 @@ Top-level function for the Interpreter. It calls `interpretCommand` for each pos
      * Checks if object fullfils the location.
      */
     function checkRelation(
-      label : string, location : Parser.Location, state: WorldState) : boolean{
+      label : string, location : Parser.Location, state: WorldState,
+      dialogue : Dialogue.DialogueContext) : boolean{
 
-      if (label == "floor") return false;
+      if (isFloor(label)) return false;
       if (state.holding == label) return false;
+      if (location.relation == "between") return checkBetween(label, location, state, dialogue);
+      var target = location.entity.object;
+      if (target.form == "column" || target.form == "emptyspot") {
+        var columns = matchObject(columnLabels(state), target, state, dialogue);
+        var relation = columnRelation(location.relation, target);
+        var related = columns.filter((column) =>
+          checkColumnRelation(label, relation, column, state));
+        return location.entity.quantifier == "all" ?
+          related.length == columns.length : related.length > 0;
+      }
       var stacks = state.stacks;
       var objectsToCheck : string[] = [];
 
@@ -780,16 +1990,51 @@ Top-level function for the Interpreter. It calls `interpretCommand` for each pos
               break;
       }
       if(quantifier == "all") {
-        return matchObject(objectsToClear, location.entity.object, state).length == 0 &&
-        matchObject(objectsToCheck, location.entity.object, state).length > 0;
-
+        return matchObject(objectsToClear, location.entity.object, state, dialogue).length == 0 &&
+        matchObject(objectsToCheck, location.entity.object, state, dialogue).length > 0;
+
+      } else if(isCounted(quantifier)) {
+        var count = matchObject(objectsToCheck, location.entity.object, state, dialogue).length;
+        switch(quantifier) {
+          case "atleast":
+            return count >= location.entity.count;
+          case "atmost":
+            return count <= location.entity.count;
+          case "exactly":
+            return count == location.entity.count;
+        }
       } else {
-          return matchObject(objectsToCheck,location.entity.object,state).length>0;
+          return matchObject(objectsToCheck,location.entity.object,state, dialogue).length>0;
       }
     }
 
+    /* Checks if an object is in a column strictly between the columns of two
+    other objects, one matching each entity of the location, or every one of
+    them for the quantifier "all". */
+    function checkBetween(
+      label : string, location : Parser.Location, state : WorldState,
+      dialogue : Dialogue.DialogueContext) : boolean {
+
+      var column = findStack(label, state);
+      var placed = objectLabels(state).concat(columnLabels(state)).filter((other) =>
+        other != label && findStack(other, state) != null);
+      var firsts = matchObject(placed, location.entity.object, state, dialogue);
+      var seconds = matchObject(placed, location.entity2.object, state, dialogue);
+      var isBetween = (first : string, second : string) => {
+        var columns = [findStack(first, state), findStack(second, state)];
+        return Math.min(columns[0], columns[1]) < column &&
+          column < Math.max(columns[0], columns[1]);
+      };
+      var holdsFor = (labels : string[], quantifier : string,
+        holds : (other : string) => boolean) => quantifier == "all" ?
+          labels.length > 0 && labels.every(holds) : labels.some(holds);
+      return holdsFor(firsts, location.entity.quantifier, (first) =>
+        holdsFor(seconds, location.entity2.quantifier, (second) => isBetween(first, second)));
+    }
+
     // Finds which stack the object is in.
     export function findStack(label : string, state: WorldState) : number{
+        if (floorColumn(label) != null) return floorColumn(label);
         for (var i = 0; i < state.stacks.length; i++){
           var stack = state.stacks[i];
           for (var j = 0; j < stack.length; j++){
@@ -816,52 +2061,22 @@ Top-level function for the Interpreter. It calls `interpretCommand` for each pos
                                  label2: string,
                                  relation: string,
                                  state: WorldState): boolean {
-        var object1 = label1 == "floor"? getFloor() : state.objects[label1];
-        var object2 = label2 == "floor"? getFloor() : state.objects[label2];
-        var f1 = object1.form;
-        var f2 = object2.form;
-        var s1 = object1.size;
-        var s2 = object2.size;
-        var result = label1 != label2;
+        if (label1 == label2) return false;
+        var object1 = isFloor(label1)? getFloor() : state.objects[label1];
+        var object2 = isFloor(label2)? getFloor() : state.objects[label2];
+        var rules = Physics.rules(state);
 
         switch (relation) {
             case "inside":
-                if (f2 != "box")
-                    result = false;
-                if ((f1 == "box" || f1 == "pyramid" || f1 == "plank") &&
-                    (s2 == s1 || s2 == "small"))
-                    result = false;
-                if (s2 == "small" && s1 == "large")
-                    result = false;
-                break;
             case "ontop":
-                if (f2 == "box")
-                    result = false;
-                if (s2 == "small" && s1 == "large")
-                    result = false;
-                if (f2 == "ball")
-                    result = false;
-                if (f1 == "ball" && f2 != "floor" && f2 != "box")
-                    result = false;
-                if (s1 == "small" && f1 == "box" && s2 == "small" &&
-                    (f2 == "brick" || f2 == "pyramid"))
-                    result = false;
-                if (s1 == "large" && f1 == "box" &&
-                    s2 == "large" && f2 == "pyramid")
-                    result = false;
-                break;
+                return Physics.allows(object1, object2, relation, rules);
             case "under":
-                if (f1 == "ball")
-                    result = false;
-                break;
+                return Physics.canSupport(object1, rules);
             case "above":
-                if (f2 == "ball")
-                    result = false;
-                if (s1 == "large" && s2 == "small")
-                    result = false;
-                break;
+                return Physics.canSupport(object2, rules) &&
+                       !Physics.sizeForbids(object1, object2, rules);
         }
-        return result;
+        return true;
     }
 
     //Checks if a given parse if physically correct and filters impossible
@@ -874,39 +2089,67 @@ Top-level function for the Interpreter. It calls `interpretCommand` for each pos
           var destinationObject = findDestinationObject(cmd);
           var movableQuantifier = cmd.entity.quantifier;
           var locationQuantifier = cmd.location.entity.quantifier;
-          var relation = cmd.location.relation;
+          var relation = columnRelation(cmd.location.relation, destinationObject);
+          //Pronouns are described by the objects they refer to
+          if(obj.pronoun != undefined) {
+            obj = describeReferent(movableLabels, state);
+          }
+          if(destinationObject.pronoun != undefined) {
+            destinationObject = describeReferent(relatableLabels, state);
+          }
+          //Alternatives are described by what they have in common
+          if(obj.alternatives != undefined) {
+            obj = commonDescription(obj.alternatives);
+          }
+          if(destinationObject.alternatives != undefined) {
+            destinationObject = commonDescription(destinationObject.alternatives);
+          }
+          //Columns and empty spots are places on the floor
+          if(destinationObject.form == "column" || destinationObject.form == "emptyspot") {
+            destinationObject = getFloor();
+          }
 
-          //These parses are not physically possible to perform in any world state.
-          if(relation == "inside" && destinationObject.form != "box") {
-            throw "Objects can only be inside of boxes."
+          //Counted quantifiers need enough objects to choose from, and
+          //behave like "all" when several objects are chosen.
+          checkCount(cmd.entity, movableLabels);
+          checkCount(cmd.location.entity, relatableLabels);
+          var movedCount = movableLabels.length;
+          if(isCounted(movableQuantifier)) {
+            movedCount = cmd.entity.count;
+            movableQuantifier = countedAsQuantifier(cmd.entity);
+          }
+          if(isCounted(locationQuantifier)) {
+            locationQuantifier = countedAsQuantifier(cmd.location.entity);
           }
+
+          //These parses are not physically possible to perform in any world state.
           if((movableQuantifier == "all" || locationQuantifier == "all") &&
             ( (obj.form == destinationObject.form && obj.form != "anyform") ||
             (obj.size == destinationObject.size && obj.size != null) ||
             (obj.color == destinationObject.color && obj.color != null) )) {
-            throw "This is not physically possible."
+            throw new Errors.PhysicsViolationError(Messages.text("notPhysical"), movableLabels, relation);
           }
           //Only one object can be inside/ontop of another one, unless floor.
           if(movableQuantifier == "all" &&
               (relation == "ontop" || relation == "inside") &&
               !(relatableLabels.length == 1 && relatableLabels[0] == "floor")) {
             if(locationQuantifier == "all") {
-              throw "This is just silly, how would I do this?"
+              throw new Errors.PhysicsViolationError(Messages.text("silly"), movableLabels, relation);
             } else if(locationQuantifier == "the") {
               var rel = "";
               switch(relation) {
                 case "ontop":
-                  throw "There can only be one object on top of another object.";
+                  throw new Errors.PhysicsViolationError(Messages.text("onlyOneOnTop"), movableLabels, relation);
                 case "inside":
-                  throw "A box can only fit one object."
+                  throw new Errors.PhysicsViolationError(Messages.text("boxFitsOne"), movableLabels, relation);
               }
-            } else if(relatableLabels.length < movableLabels.length) {
-              throw "There are not enough locations for this."
+            } else if(relatableLabels.length < movedCount) {
+              throw new Errors.PhysicsViolationError(Messages.text("notEnoughLocations"), movableLabels, relation);
             }
           }
           //These are dependent on the world state.
           if(movableLabels.length == 0) {
-            throw "I could not find any matching object to move."
+            throw new Errors.NoMatchError(Messages.text("nothingToMove"), relatableLabels, relation);
           }
 
           //Cannot put an object insde/ontop of every destination location if
@@ -914,11 +2157,12 @@ Top-level function for the Interpreter. It calls `interpretCommand` for each pos
           if(locationQuantifier == "all" &&
               (relation == "ontop" || relation == "inside") &&
               movableLabels.length < relatableLabels.length) {
-                throw "There are too few objects to move for this."
+                throw new Errors.UnreachableGoalError(Messages.text("tooFewObjects"), movableLabels, relation);
           }
           //Does the relation between the object to be moved and the destination
           //object break any physical law?
-          validateRelation(obj, destinationObject, relation, locationQuantifier);
+          validateRelation(obj, destinationObject, relation, locationQuantifier, state,
+            movableLabels.concat(relatableLabels));
 
           //Check for cases where movable or location quantifier is "all" and
           //some objects is in both sets. Filter these objects if possible, or
@@ -928,46 +2172,68 @@ Top-level function for the Interpreter. It calls `interpretCommand` for each pos
           for(var i = 0; i < movableLabels.length; i++) {
             var ml = movableLabels[i];
             var objDef = getObjectDefinition(ml, state);
-            var rel = "";
-            switch(relation) {
-              case "leftof":
-                rel = "to the left of";
-                break;
-              case "rightof":
-                rel = "to the right of";
-                break;
-              case "inside" || "ontop" || "above" || "under":
-                rel = cmd.location.relation
-                break;
-            }
+            var itself = new Errors.PhysicsViolationError(Messages.text("itself",
+              Messages.describe(objDef, "the"), Messages.relation(relation)), [ml], relation);
             for(var j = 0; j < relatableLabels.length; j++) {
               var rl = relatableLabels[j];
               if(ml == rl && mq == "any" && lq == "all") {
                 movableLabels =
                   movableLabels.filter((label) => label != ml);
                 if(movableLabels.length == 0) {
-                  throw "I cannot put the " + objDef.size + " " +
-                    objDef.color + " "+ objDef.form + " " + rel + " itself."
+                  throw itself;
                 }
               }
               if(ml == rl && mq == "all" && lq =="any") {
                 relatableLabels = relatableLabels.filter((label) => label != rl);
                 if(relatableLabels.length == 0) {
-                  throw "I cannot put the " + objDef.size + " " +
-                    objDef.color + " "+ objDef.form + " " + rel + " itself."
+                  throw itself;
                 }
               }
               if( (ml == rl) &&
                   ( (mq == "the" && lq == "all") ||
                     (mq == "all" && (lq == "the" || lq == "all")) )) {
-                      throw "I cannot put the " + objDef.size + " " +
-                        objDef.color + " "+ objDef.form + " " + rel + " itself."
+                      throw itself;
               }
             }
           }
           return {movableLabels, relatableLabels}
     }
 
+    //Throws an error if a counted quantifier asks for more objects than the
+    //labels that match it.
+    function checkCount(entity : Parser.Entity, labels : string[]) {
+      if((entity.quantifier == "atleast" || entity.quantifier == "exactly") &&
+          labels.length < entity.count) {
+        var obj = entity.object.object == null ? entity.object : entity.object.object;
+        throw new Errors.NoMatchError(Messages.text("onlyFind",
+          Messages.describe(obj, "number", labels.length), entity.count), labels);
+      }
+    }
+
+    //Returns the object definition of a single referent, and any object for
+    //several referents.
+    function describeReferent(labels : string[], state : WorldState) : Parser.Object {
+      if(labels.length == 1) {
+        return getObjectDefinition(labels[0], state);
+      }
+      return {size: null, color: null, form: "anyform"};
+    }
+
+    //Returns an object with the attributes that all the given objects share.
+    function commonDescription(objects : Parser.Object[]) : Parser.Object {
+      var shared = (attribute : (object : Parser.Object) => string) =>
+        objects.every((object) => attribute(object) == attribute(objects[0])) ?
+          attribute(objects[0]) : null;
+      return {size: shared((object) => object.size),
+              color: shared((object) => object.color),
+              form: shared((object) => object.form) || "anyform"};
+    }
+
+    //Returns the uncounted quantifier that a counted one behaves like.
+    function countedAsQuantifier(entity : Parser.Entity) : string {
+      return (entity.quantifier != "atmost" && entity.count > 1) ? "all" : "any";
+    }
+
     //Returns the ObjectDefinition given a label identifier.
     function getObjectDefinition(label : string, state : WorldState)
         : ObjectDefinition {
@@ -1,8 +1,30 @@
 
 interface TestCase {
     world : string;
-    utterance : string;
-    interpretations : string[][]
+    /** The utterance, unless the test checks a goal. */
+    utterance? : string;
+    /** A goal in the notation of the interpretations, e.g. "holding(e) |
+     * ontop(e,floor) & -ontop(f,k)", whose consistent conjunctions the
+     * planner should keep, instead of interpreting an utterance. */
+    goal? : string;
+    /** The utterances before this one in the same dialogue, if any. */
+    before? : string[];
+    /** The language of the utterances, if not English. */
+    language? : string;
+    /** The interpretations, unless the test checks the replies. */
+    interpretations? : string[][];
+    /** The code of the error that the interpreter should report, if any,
+     * or "parse" if the utterance should not parse. */
+    error? : string;
+    /** The message of the error, if it is checked. */
+    message? : string;
+    /** The labels that the error is about, if they are checked. */
+    labels? : string[];
+    /** The relation that the error is about, if it is checked. */
+    relation? : string;
+    /** What the whole system replies to the utterance, instead of its
+     * interpretations: the messages and the descriptions of the plan. */
+    reply? : string[];
 }
 
 var allTestCases : TestCase[] = [
@@ -69,6 +91,459 @@ var allTestCases : TestCase[] = [
     {world: "small",
      utterance: "put a black ball in a box on the floor",
      interpretations: [["inside(f,k)"], ["ontop(f,floor)"]]
+    },
+
+    {world: "small",
+     utterance: "remove the white ball from the black ball",
+     interpretations: [],
+     error: "unreachable-goal"
+    },
+
+    {world: "small",
+     before: ["clear the box"],
+     utterance: "the blue one",
+     interpretations: [["-inside(f,m)"]]
+    },
+
+    {world: "small",
+     utterance: "take a ball that is not in a box",
+     interpretations: [["holding(e)"]]
+    },
+
+    {world: "small",
+     utterance: "put a box that is not on the floor on the floor",
+     interpretations: [["ontop(l,floor)", "ontop(m,floor)"]]
+    },
+
+    {world: "small",
+     utterance: "take the black ball out of a box",
+     interpretations: [["-inside(f,k) & -inside(f,l) & -inside(f,m)"]]
+    },
+
+    {world: "small",
+     utterance: "make sure nothing is on the table",
+     interpretations: [["-ontop(k,g) & -ontop(l,g) & -ontop(m,g)"]]
+    },
+
+    {world: "small",
+     utterance: "put two boxes on the floor",
+     interpretations: [["ontop(k,floor) & ontop(l,floor)",
+                        "ontop(k,floor) & ontop(m,floor)",
+                        "ontop(l,floor) & ontop(m,floor)"]]
+    },
+
+    {world: "small",
+     utterance: "put at most one ball on the floor",
+     interpretations: [["-ontop(e,floor)", "-ontop(f,floor)"]]
+    },
+
+    {world: "small",
+     utterance: "put at least 0 balls on the floor",
+     interpretations: [],
+     error: "no-match",
+     message: "Please ask for at least one object."
+    },
+
+    {world: "small",
+     utterance: "put exactly 0 balls in a box",
+     interpretations: [],
+     error: "no-match"
+    },
+
+    {world: "small",
+     utterance: "take the leftmost box",
+     interpretations: [["holding(l)"]]
+    },
+
+    {world: "small",
+     utterance: "put the smallest box on the floor",
+     interpretations: [["ontop(m,floor)"]]
+    },
+
+    {world: "small",
+     utterance: "put the white ball in the third stack",
+     interpretations: [["above(e,floor-2)"]]
+    },
+
+    {world: "small",
+     utterance: "put the blue box on an empty spot",
+     interpretations: [["ontop(m,floor-2)", "ontop(m,floor-4)"]]
+    },
+
+    {world: "small",
+     utterance: "take a red or blue box",
+     interpretations: [["holding(l)", "holding(m)"]]
+    },
+
+    {world: "small",
+     utterance: "take a ball or a table",
+     interpretations: [["holding(e)", "holding(f)", "holding(g)"]]
+    },
+
+    {world: "small",
+     utterance: "put the white sphere in a crimson crate",
+     interpretations: [["inside(e,l)"]]
+    },
+
+    {world: "small",
+     utterance: "put the white ball between the red box and a box",
+     interpretations: [["between(e,l,k)", "between(e,l,m)"]]
+    },
+
+    {world: "small",
+     utterance: "swap the white ball and the blue box",
+     interpretations: [["inside(e,k) & ontop(m,floor-0)"]]
+    },
+
+    {world: "small",
+     utterance: "unstack the fourth column",
+     interpretations: [["ontop(f,floor) & ontop(k,floor) & ontop(m,floor)"]]
+    },
+
+    {world: "small",
+     utterance: "put the white ball in column 9",
+     interpretations: [],
+     error: "no-match",
+     message: "There is no column 9."
+    },
+
+    {world: "small",
+     utterance: "put the white ball in the blue box",
+     interpretations: [],
+     error: "physics-violation",
+     message: "Small boxes cannot contain large objects.",
+     labels: ["e", "m"],
+     relation: "inside"
+    },
+
+    {world: "small",
+     utterance: "put a pyramid on the table",
+     interpretations: [],
+     error: "no-match",
+     labels: ["g"],
+     relation: "ontop"
+    },
+
+    {world: "small",
+     utterance: "put the second column in a box",
+     interpretations: [],
+     error: "physics-violation",
+     message: "I cannot move a column."
+    },
+
+    {world: "small",
+     utterance: "put the floor on the table",
+     interpretations: [],
+     error: "physics-violation",
+     message: "I cannot move the floor."
+    },
+
+    {world: "small",
+     utterance: "take the ball in column 0",
+     interpretations: [],
+     error: "no-match",
+     message: "There is no column 0."
+    },
+
+    {world: "small",
+     language: "sv",
+     utterance: "ställ den vita bollen i kolumn 9",
+     interpretations: [],
+     error: "no-match",
+     message: "Det finns ingen kolumn 9."
+    },
+
+    {world: "small",
+     before: ["put the ball in the yellow box"],
+     utterance: "the white one",
+     interpretations: [["inside(e,k)"]]
+    },
+
+    {world: "small",
+     before: ["take the white ball"],
+     utterance: "put it in the yellow box",
+     interpretations: [["inside(e,k)"]]
+    },
+
+    {world: "small",
+     utterance: "put the black ball on the white ball",
+     interpretations: [],
+     error: "physics-violation"
+    },
+
+    {world: "small",
+     utterance: "take the green ball",
+     interpretations: [],
+     error: "no-match"
+    },
+
+    {world: "small",
+     utterance: "put the ball in the yellow box",
+     interpretations: [],
+     error: "ambiguous-reference"
+    },
+
+    {world: "impossible",
+     utterance: "put the black ball on the red ball",
+     interpretations: [["ontop(sball1,sball2)"]]
+    },
+
+    {world: "small",
+     utterance: "put all balls in a large box",
+     interpretations: [["inside(e,k) & inside(f,l)", "inside(e,l) & inside(f,k)"]]
+    },
+
+    {world: "complex",
+     utterance: "put all large objects beside any small object",
+     interpretations: [],
+     error: "goal-too-large"
+    },
+
+    {world: "complex",
+     utterance: "put each pyramid beside a box of the same color",
+     interpretations: [["beside(i,k) & beside(j,l)"]]
+    },
+
+    {world: "complex",
+     utterance: "take a box bigger than the black ball",
+     interpretations: [["holding(k)", "holding(l)"]]
+    },
+
+    {world: "small",
+     utterance: "take a ball smaller than the box",
+     interpretations: [],
+     error: "ambiguous-reference"
+    },
+
+    {world: "small",
+     utterance: "take a ball smaller than the red table",
+     interpretations: [],
+     error: "no-match"
+    },
+
+    {world: "small",
+     utterance: "take a ball smaller than the table",
+     interpretations: [["holding(f)"]]
+    },
+
+    {world: "small",
+     utterance: "put the ball in a box on the table",
+     reply: ["Do you mean the black ball or the white ball?"]
+    },
+
+    {world: "small",
+     utterance: "remove all balls from all boxes",
+     reply: ["I will take the black ball out of the blue box.",
+             "Moving the black ball to the floor.", "What else can I do for you?"]
+    },
+
+    {world: "small",
+     utterance: "clear the yellow box",
+     reply: ["I will take the blue box out of the yellow box.",
+             "Moving the black ball to the floor.", "Moving the blue box to the floor.",
+             "What else can I do for you?"]
+    },
+
+    {world: "small",
+     utterance: "put all boxes on the floor",
+     reply: ["I will put the blue box and the red box on the floor.",
+             "Moving the red box to the floor.", "Moving the black ball to the red box.",
+             "Moving the blue box to the floor.", "What else can I do for you?"]
+    },
+
+    {world: "small",
+     language: "sv",
+     utterance: "töm bordet",
+     reply: ["Jag ska ta den röda lådan från bordet.",
+             "Flyttar den röda lådan till golvet.", "Vad mer kan jag göra för dig?"]
+    },
+
+    {world: "small",
+     utterance: "put the leftmost ball in a box on the floor",
+     reply: ["I understood this as: move the leftmost ball that is inside of any box on top of the floor",
+             "I will put the black ball on the floor.", "Moving the black ball to the floor.",
+             "What else can I do for you?"]
+    },
+
+    {world: "small",
+     utterance: "where is the white ball",
+     reply: ["The white ball is on the floor, in the first stack."]
+    },
+
+    {world: "small",
+     utterance: "how many boxes are on the floor",
+     reply: ["There is one box on top of the floor."]
+    },
+
+    {world: "small",
+     utterance: "how many pyramids are on the table",
+     reply: ["There are no pyramids on top of the table."]
+    },
+
+    {world: "small",
+     utterance: "how many balls are left of the green table",
+     reply: ["There is no green table."]
+    },
+
+    {world: "small",
+     utterance: "how many balls are in it",
+     reply: ["I do not know what you mean by \"it\"."]
+    },
+
+    {world: "small",
+     utterance: "how many columns are there",
+     reply: ["There are 5 columns."]
+    },
+
+    {world: "small",
+     utterance: "where is the third column",
+     reply: ["The third column is empty."]
+    },
+
+    {world: "small",
+     before: ["take the bleu box"],
+     utterance: "yes",
+     reply: ["I will pick up the blue box.", "Moving the black ball to the floor.",
+             "Picking up the blue box.", "What else can I do for you?"]
+    },
+
+    {world: "small",
+     utterance: "are all balls in a box",
+     reply: ["No. The white ball is on the floor, in the first stack."]
+    },
+
+    {world: "small",
+     utterance: "is the white ball in the black ball",
+     reply: ["No, that is not physically possible."]
+    },
+
+    {world: "small",
+     utterance: "is every ball on a table",
+     reply: ["No, that is not physically possible."]
+    },
+
+    {world: "small",
+     goal: "ontop(e,floor) & -ontop(e,floor) | holding(f)",
+     interpretations: [["holding(f)"]]
+    },
+
+    {world: "small",
+     goal: "holding(e) & holding(f)",
+     interpretations: [],
+     error: "unreachable-goal",
+     message: "I can only hold one object at a time."
+    },
+
+    {world: "small",
+     goal: "inside(f,k) & ontop(f,floor)",
+     interpretations: [],
+     error: "unreachable-goal",
+     message: "The black ball cannot be in two places at once."
+    },
+
+    {world: "small",
+     goal: "inside(e,k) & inside(f,k) | inside(f,k)",
+     interpretations: [["inside(f,k)"]]
+    },
+
+    {world: "small",
+     goal: "ontop(e,floor) & ontop(f,floor)",
+     interpretations: [["ontop(e,floor) & ontop(f,floor)"]]
+    },
+
+    {world: "small",
+     goal: "ontop(f,floor) & ontop(f,floor-2)",
+     interpretations: [["ontop(f,floor) & ontop(f,floor-2)"]]
+    },
+
+    {world: "small",
+     goal: "ontop(f,floor-1) & ontop(f,floor-2)",
+     interpretations: [],
+     error: "unreachable-goal",
+     message: "The black ball cannot be in two places at once."
+    },
+
+    {world: "small",
+     goal: "leftof(e,f) & leftof(f,e)",
+     interpretations: [],
+     error: "unreachable-goal",
+     message: "The white ball cannot be both to the left of and to the right of the black ball."
+    },
+
+    {world: "small",
+     goal: "under(e,f) & under(f,e)",
+     interpretations: [],
+     error: "unreachable-goal",
+     message: "The white ball cannot be both under and above the black ball."
+    },
+
+    {world: "small",
+     goal: "inside(f,k) & ontop(k,f)",
+     interpretations: [],
+     error: "unreachable-goal",
+     message: "The black ball cannot be inside of the yellow box " +
+              "when the yellow box is on top of the black ball."
+    },
+
+    {world: "small",
+     utterance: "put 2 balls on the floor",
+     interpretations: [["ontop(e,floor) & ontop(f,floor)"]]
+    },
+
+    {world: "small",
+     utterance: "put a3 balls on the floor",
+     error: "parse"
+    },
+
+    {world: "small",
+     utterance: "stack 1 2",
+     error: "parse"
+    },
+
+    {world: "small",
+     utterance: "stack all red boxes or black balls",
+     interpretations: [["inside(f,l)"]]
+    },
+
+    {world: "small",
+     utterance: "stack the black ball",
+     interpretations: [],
+     error: "unreachable-goal",
+     message: "I need at least two objects to make a stack."
+    },
+
+    {world: "small",
+     utterance: "stack all objects",
+     interpretations: [],
+     error: "unreachable-goal",
+     message: "I can only stack up to 5 objects at a time."
+    },
+
+    {world: "small",
+     utterance: "stack the boxes",
+     interpretations: [],
+     error: "physics-violation",
+     message: "This is not physically possible."
+    },
+
+    {world: "small",
+     utterance: "take the white ball and the black ball",
+     error: "parse"
+    },
+
+    {world: "small",
+     before: ["take the red box then put the ball on the floor"],
+     utterance: "the black one",
+     reply: ["I will pick up the red box.", "Picking up the red box.",
+             "I will put the black ball on the floor.", "Putting the red box on the table.",
+             "Moving the black ball to the floor.", "What else can I do for you?"]
+    },
+
+    {world: "small",
+     utterance: "take the white ball then put it on the floor",
+     reply: ["I will pick up the white ball.", "Picking up the white ball.",
+             "I will put the white ball on the floor.", "Putting the white ball on the floor.",
+             "What else can I do for you?"]
     }
 ];
 
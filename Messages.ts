@@ -0,0 +1,606 @@
+///<reference path="Parser.ts"/>
+
+/**
+* Messages module
+*
+* This module holds everything that the system says to the user, in
+* every language that it speaks. A message is looked up by its key in
+* the current language, and the noun phrases that describe objects
+* are built by the rules of that language, since words such as
+* articles and adjectives change with the noun in some languages.
+*/
+module Messages {
+
+    /** The current language, e.g. "en" for English or "sv" for Swedish. */
+    export var language : string = "en";
+
+    /** Returns the codes of all languages that the system speaks. */
+    export function languages() : string[] {
+        return Object.keys(tables);
+    }
+
+    /** Changes the current language. */
+    export function setLanguage(lang : string) : void {
+        if (tables[lang] == undefined) {
+            throw new Error("Unknown language: " + lang);
+        }
+        language = lang;
+    }
+
+    /** Returns the locale of the current language, for speech synthesis. */
+    export function locale() : string {
+        return tables[language].locale;
+    }
+
+    /**
+     * Returns a message in the current language.
+     * @param key The name of the message.
+     * @param args The values of the placeholders {0}, {1}, ... of the message.
+     */
+    export function text(key : string, ...args : any[]) : string {
+        var template = tables[language].templates[key] || english.templates[key];
+        return template.replace(/\{(\d+)\}/g, (match : string, n : string) => String(args[+n]));
+    }
+
+    /**
+     * Describes an object with a noun phrase, e.g. "the white ball".
+     * @param object The description of the object.
+     * @param determiner A quantifier of the parser ("the", "any", "all",
+     * "atleast", "atmost" or "exactly"), or "a", "one", "no", "none" (no objects),
+     * "number" (a number of objects) or "plural" (no determiner, in plural).
+     * @param count The number of objects, for counted determiners and "number".
+     */
+    export function describe(object : Parser.Object, determiner : string, count? : number) : string {
+        return tables[language].describe(object, determiner, count);
+    }
+
+    /** Returns the preposition of a relation, e.g. "on top of" for "ontop". */
+    export function relation(rel : string) : string {
+        return tables[language].relations[rel];
+    }
+
+    /**
+     * Returns the preposition of a relation that the robot makes hold, e.g.
+     * "on" for "ontop", or that it stops from holding, e.g. "off".
+     * @returns The preposition, or undefined if the relation is only
+     * stopped from holding by making sure that it does not.
+     */
+    export function goal(rel : string, polarity : boolean) : string {
+        return (polarity ? tables[language].goals : tables[language].removals)[rel];
+    }
+
+    /**
+     * Returns the phrase of a comparison, e.g. "smaller than the red table"
+     * for "smaller", or "of the same color" for "samecolor".
+     * @param comparison The comparison of the parser.
+     * @param entity The description of the objects compared with, if any.
+     */
+    export function comparison(comparison : string, entity? : string) : string {
+        var phrase = tables[language].comparisons[comparison];
+        if (entity == undefined) {
+            return phrase;
+        }
+        return text(comparison.indexOf("same") == 0 ? "sameAs" : "comparedTo", phrase, entity);
+    }
+
+    /** Returns the verb of a command, e.g. "where is" for "where". */
+    export function verb(command : string) : string {
+        var verb = tables[language].verbs[command];
+        return verb == undefined ? command : verb;
+    }
+
+    /** Returns the ordinal word for a (1-based) position, e.g. 2 gives "second". */
+    export function ordinal(n : number) : string {
+        var ordinals = tables[language].ordinals;
+        return (n > 0 && n <= ordinals.length) ? ordinals[n - 1] :
+            text("ordinal", n);
+    }
+
+    /** Checks if the user answered yes to a question. */
+    export function isYes(utterance : string) : boolean {
+        return tables[language].yes.test(utterance);
+    }
+
+    /** Checks if the user answered no to a question. */
+    export function isNo(utterance : string) : boolean {
+        return tables[language].no.test(utterance);
+    }
+
+    export function capitalize(phrase : string) : string {
+        return phrase.charAt(0).toUpperCase() + phrase.slice(1);
+    }
+
+    //////////////////////////////////////////////////////////////////////
+    // private functions and the languages
+
+    /** Everything that is said in one language. */
+    interface Language {
+        locale : string;
+        /** Every message, with placeholders {0}, {1}, ... for its values. */
+        templates : {[key:string] : string};
+        relations : {[relation:string] : string};
+        /** The prepositions of the relations that the robot makes hold. */
+        goals : {[relation:string] : string};
+        /** The prepositions of the relations that the robot takes objects out of. */
+        removals : {[relation:string] : string};
+        comparisons : {[comparison:string] : string};
+        verbs : {[command:string] : string};
+        ordinals : string[];
+        yes : RegExp;
+        no : RegExp;
+        describe(object : Parser.Object, determiner : string, count : number) : string;
+    }
+
+    // Checks if a determiner refers to several objects.
+    function isPlural(determiner : string, count : number) : boolean {
+        if (determiner == "all" || determiner == "none" || determiner == "plural") {
+            return true;
+        }
+        var counted = ["atleast", "atmost", "exactly", "number"];
+        return counted.indexOf(determiner) != -1 && count != 1;
+    }
+
+    //////////////////////////////////////////////////////////////////////
+    // English
+
+    var english : Language = {
+        locale: "en-GB",
+        templates: {
+            // Parser
+            unexpectedWord: 'I did not expect "{0}" (word {1}, at character {2}). ',
+            incomplete: "The sentence is incomplete. ",
+            expectedNothing: "I expected nothing more.",
+            expectedWord: 'I expected "{0}".',
+            expectedWords: "I expected one of: {0}.",
+            andThen: "and then {0}",
+            makeSureNothing: "make sure nothing is {0}",
+            relativeClause: "{0} that is {1}",
+            sameAs: "{0} as {1}",
+            comparedTo: "{0} than {1}",
+            negativeClause: "{0} that is not {1}",
+            or: " or ",
+            and: " and ",
+            ordinal: "{0}th",
+            // Interpreter
+            pardon: "I beg your pardon?",
+            notAnOptionGiven: "That was not one of the options I gave you. {0}",
+            notAnOptionAsked: "That was not one of the options I asked for. {0}",
+            thereIs: "There is {0}.",
+            thereAre: "There are {0}.",
+            located: "{0} {1}",
+            notLocated: "{0} not {1}",
+            holdOne: "I can only hold one object at a time.",
+            cannotMove: "I cannot move {0}.",
+            nothingToMove: "I could not find any matching object to move.",
+            cannotDoThat: "I cannot do that.",
+            unknownPronoun: 'I do not know what you mean by "{0}".',
+            holding: "I am holding {0}",
+            notHolding: "I am not holding {0}",
+            relationHolds: "{0} is {1}",
+            relationFails: "{0} is not {1}",
+            floorInColumn: "the floor in the {0} stack",
+            holdingPosition: "I am holding {0}.",
+            position: "{0} is {1}, in the {2} stack.",
+            onTheFloor: "on the floor",
+            emptyColumn: "The {0} column is empty.",
+            columnBottom: "The {0} column has {1} at the bottom.",
+            whichColumn: "There are {0} columns, which one do you mean?",
+            noColumn: "There is no column {0}.",
+            countTooSmall: "Please ask for at least one object.",
+            whichObject: "There are {0}, which one do you mean?",
+            doYouMean: "Do you mean {0}?",
+            noDifference: "Something went wrong, no difference found.",
+            onlyInsideBox: "An object can only be inside of a box.",
+            containSmaller: "Boxes can only contain {0} that are smaller than themselves.",
+            containLarge: "Small boxes cannot contain large objects.",
+            severalBoxes: "{0} cannot be inside of several boxes.",
+            notOnTopOfBox: "{0} cannot be on top of a box, only inside it.",
+            cannotSupport: "{1} cannot support {0}.",
+            ballsSupport: "Balls cannot support other objects.",
+            ballsPlace: "Balls must be in boxes or on the floor.",
+            smallBoxesSupport: "Small boxes cannot be supported by small bricks or pyramids.",
+            largeBoxesSupport: "Large boxes cannot be supported by large pyramids.",
+            onlyOneBelow: "An object can only be directly on top of one other object.",
+            notPhysical: "This is not physically possible.",
+            silly: "This is just silly, how would I do this?",
+            onlyOneOnTop: "There can only be one object on top of another object.",
+            boxFitsOne: "A box can only fit one object.",
+            notEnoughLocations: "There are not enough locations for this.",
+            tooFewObjects: "There are too few objects to move for this.",
+            itself: "I cannot put {0} {1} itself.",
+            onlyFind: "I can only find {0}, not {1}.",
+            swapTwo: "I can only swap one object with another.",
+            swapHolding: "I cannot swap something that I am holding.",
+            stackTwo: "I need at least two objects to make a stack.",
+            stackMany: "I can only stack up to {0} objects at a time.",
+            comparedWithWhat: "{0} as what?",
+            willDo: "I will {0}.",
+            goalHolding: "pick up {0}",
+            goalNotHolding: "put down {0}",
+            goalRelation: "put {0} {1}",
+            goalNotRelation: "make sure that {0} is not {1}",
+            goalRemoval: "take {0} {1}",
+            either: "either {0}",
+            otherWays: "in one of {0} other ways",
+            // Planner
+            pickingUp: "Picking up {0}.",
+            moving: "Moving {0} to {1}.",
+            putting: "Putting {0} {1} {2}.",
+            in: "in",
+            on: "on",
+            alreadyTrue: "That is already true!",
+            searchTimeout: "Sorry I am too dumb to figure this one out, I need more time.",
+            unreachableGoal: "I cannot find any way to do that.",
+            goalTooLarge: "There are more than {0} ways to do that, please be more specific.",
+            goalTooHard: "There are too many ways to try to do that, please be more specific.",
+            conflictPolarity: "{0} cannot both be and not be {1} {2}.",
+            conflictOnePlace: "{0} cannot be in two places at once.",
+            conflictSamePlace: "{0} and {1} cannot both be directly {2} {3}.",
+            conflictBothWays: "{0} cannot be both {1} and {2} {3}.",
+            conflictEachOther: "{0} cannot be {1} {2} when {2} is {3} {4}.",
+            picking: "Picking",
+            dropping: "Dropping",
+            goingLeft: "Going left",
+            goingRight: "Going right",
+            // Dialogue
+            greeting: "What can I do for you today?",
+            populating: "Please wait while I populate the world.",
+            whatElse: "What else can I do for you?",
+            tryAgain: "Ok, please try again.",
+            youWant: "Ok, you want me to {0}",
+            notAnOptionNumber: "Sorry, but {0} was not one of the options I gave you. " +
+                "Please choose the number of the utterance you had in mind or give me new instructions.",
+            didYouMean: 'Sorry I cannot understand this. Did you mean "{0}"?',
+            cannotUnderstand: "Sorry I cannot understand this: {0}",
+            ambiguous: "This utterance is ambiguous, I found {0} different readings.",
+            chooseReading: "Please choose the number of the utterance you had in mind or give me new instructions.",
+            understoodAs: "I understood this as: {0}",
+            yes: "Yes, {0}.",
+            noImpossible: "No, that is not physically possible.",
+            no: "No. {0}",
+        },
+        relations: {
+            inside: "inside of",
+            ontop: "on top of",
+            leftof: "to the left of",
+            rightof: "to the right of",
+            under: "under",
+            above: "above",
+            beside: "beside",
+            between: "between",
+        },
+        goals: {
+            inside: "in",
+            ontop: "on",
+            leftof: "to the left of",
+            rightof: "to the right of",
+            under: "under",
+            above: "above",
+            beside: "beside",
+            between: "between",
+        },
+        removals: {
+            inside: "out of",
+            ontop: "off",
+        },
+        comparisons: {
+            smaller: "smaller",
+            larger: "larger",
+            samecolor: "of the same color",
+            samesize: "of the same size",
+            sameform: "of the same shape",
+        },
+        verbs: {ask: "is", where: "where is"},
+        ordinals: ["first", "second", "third", "fourth", "fifth",
+                   "sixth", "seventh", "eighth", "ninth", "tenth"],
+        yes: /^\s*(yes|ok)\W*$/i,
+        no: /^\s*no\W*$/i,
+        describe: describeEnglish,
+    };
+
+    function describeEnglish(object : Parser.Object, determiner : string, count : number) : string {
+        var plural = isPlural(determiner, count);
+        if (object.pronoun != undefined) {
+            return object.pronoun;
+        }
+        var words : string;
+        if (object.alternatives != undefined) {
+            words = object.alternatives.map((alternative) =>
+                englishWords(alternative, plural)).join(english.templates["or"]);
+        } else {
+            words = englishWords(object, plural);
+        }
+        switch (determiner) {
+          case "a":
+            return (/^[aeiou]/.test(words) ? "an " : "a ") + words;
+          case "none":
+            return "no " + words;
+          case "atleast":
+            return "at least " + count + " " + words;
+          case "atmost":
+            return "at most " + count + " " + words;
+          case "exactly":
+            return "exactly " + count + " " + words;
+          case "number":
+            return count + " " + words;
+          case "plural":
+            return words;
+          default:
+            return determiner + " " + words;
+        }
+    }
+
+    // The words of a basic object without its determiner, e.g. "large white balls".
+    function englishWords(object : Parser.Object, plural : boolean) : string {
+        var words : string[] = [object.superlative, object.size, object.color];
+        var form = object.form;
+        if (form == "column" || form == "emptyspot") {
+            var place = form == "column" ? "column" : "empty spot";
+            if (object.column != undefined) {
+                words.push(ordinal(object.column + 1), place);
+            } else {
+                words.push(place + (plural ? "s" : ""));
+            }
+        } else if (plural) {
+            words.push(Parser.getPlural(form));
+        } else {
+            words.push(form == "anyform" ? "object" : form);
+        }
+        return words.filter((word) => word != undefined).join(" ");
+    }
+
+    //////////////////////////////////////////////////////////////////////
+    // Swedish
+
+    var swedish : Language = {
+        locale: "sv-SE",
+        templates: {
+            // Parser
+            unexpectedWord: 'Jag väntade mig inte "{0}" (ord {1}, vid tecken {2}). ',
+            incomplete: "Meningen är ofullständig. ",
+            expectedNothing: "Jag väntade mig inget mer.",
+            expectedWord: 'Jag väntade mig "{0}".',
+            expectedWords: "Jag väntade mig något av: {0}.",
+            andThen: "och sedan {0}",
+            makeSureNothing: "se till att ingenting är {0}",
+            relativeClause: "{0} som är {1}",
+            sameAs: "{0} som {1}",
+            comparedTo: "{0} än {1}",
+            negativeClause: "{0} som inte är {1}",
+            or: " eller ",
+            and: " och ",
+            ordinal: "{0}:e",
+            // Interpreter
+            pardon: "Förlåt, vad sa du?",
+            notAnOptionGiven: "Det var inte ett av alternativen som jag gav dig. {0}",
+            notAnOptionAsked: "Det var inte ett av alternativen som jag frågade efter. {0}",
+            thereIs: "Det finns {0}.",
+            thereAre: "Det finns {0}.",
+            located: "{0} som är {1}",
+            notLocated: "{0} som inte är {1}",
+            holdOne: "Jag kan bara hålla ett föremål åt gången.",
+            cannotMove: "Jag kan inte flytta {0}.",
+            nothingToMove: "Jag hittade inget matchande föremål att flytta.",
+            cannotDoThat: "Det kan jag inte göra.",
+            unknownPronoun: 'Jag vet inte vad du menar med "{0}".',
+            holding: "jag håller {0}",
+            notHolding: "jag håller inte {0}",
+            relationHolds: "{0} är {1}",
+            relationFails: "{0} är inte {1}",
+            floorInColumn: "golvet i den {0} stapeln",
+            holdingPosition: "Jag håller {0}.",
+            position: "{0} är {1}, i den {2} stapeln.",
+            onTheFloor: "på golvet",
+            emptyColumn: "Den {0} kolumnen är tom.",
+            columnBottom: "Den {0} kolumnen har {1} längst ner.",
+            whichColumn: "Det finns {0} kolumner, vilken av dem menar du?",
+            noColumn: "Det finns ingen kolumn {0}.",
+            countTooSmall: "Be om minst ett föremål.",
+            whichObject: "Det finns {0}, vilken av dem menar du?",
+            doYouMean: "Menar du {0}?",
+            noDifference: "Något gick fel, jag hittade ingen skillnad.",
+            onlyInsideBox: "Ett föremål kan bara vara i en låda.",
+            containSmaller: "Lådor kan bara innehålla {0} som är mindre än lådan själv.",
+            containLarge: "Små lådor kan inte innehålla stora föremål.",
+            severalBoxes: "{0} kan inte vara i flera lådor.",
+            notOnTopOfBox: "{0} kan inte ligga ovanpå en låda, bara i den.",
+            cannotSupport: "{1} kan inte bära {0}.",
+            ballsSupport: "Bollar kan inte bära andra föremål.",
+            ballsPlace: "Bollar måste ligga i lådor eller på golvet.",
+            smallBoxesSupport: "Små lådor kan inte stå på små tegelstenar eller pyramider.",
+            largeBoxesSupport: "Stora lådor kan inte stå på stora pyramider.",
+            onlyOneBelow: "Ett föremål kan bara stå direkt ovanpå ett annat föremål.",
+            notPhysical: "Det är inte fysiskt möjligt.",
+            silly: "Det där är bara dumt, hur skulle jag göra det?",
+            onlyOneOnTop: "Det får bara finnas ett föremål ovanpå ett annat föremål.",
+            boxFitsOne: "Det får bara plats ett föremål i en låda.",
+            notEnoughLocations: "Det finns inte tillräckligt många platser för det.",
+            tooFewObjects: "Det finns för få föremål att flytta för det.",
+            itself: "Jag kan inte lägga {0} {1} sig själv.",
+            onlyFind: "Jag hittar bara {0}, inte {1}.",
+            swapTwo: "Jag kan bara byta plats på ett föremål med ett annat.",
+            swapHolding: "Jag kan inte byta plats på något som jag håller i.",
+            stackTwo: "Jag behöver minst två föremål för att bygga en stapel.",
+            stackMany: "Jag kan bara stapla upp till {0} föremål åt gången.",
+            comparedWithWhat: "{0} som vad?",
+            willDo: "Jag ska {0}.",
+            goalHolding: "plocka upp {0}",
+            goalNotHolding: "släppa {0}",
+            goalRelation: "lägga {0} {1}",
+            goalNotRelation: "se till att {0} inte är {1}",
+            goalRemoval: "ta {0} {1}",
+            either: "antingen {0}",
+            otherWays: "på ett av {0} andra sätt",
+            // Planner
+            pickingUp: "Plockar upp {0}.",
+            moving: "Flyttar {0} till {1}.",
+            putting: "Lägger {0} {1} {2}.",
+            in: "i",
+            on: "på",
+            alreadyTrue: "Det är redan sant!",
+            searchTimeout: "Förlåt, det här är för svårt för mig, jag behöver mer tid.",
+            unreachableGoal: "Jag hittar inget sätt att göra det.",
+            goalTooLarge: "Det finns fler än {0} sätt att göra det, var lite mer specifik.",
+            goalTooHard: "Det finns för många sätt att försöka göra det, var lite mer specifik.",
+            conflictPolarity: "{0} kan inte både vara och inte vara {1} {2}.",
+            conflictOnePlace: "{0} kan inte vara på två platser samtidigt.",
+            conflictSamePlace: "{0} och {1} kan inte båda vara direkt {2} {3}.",
+            conflictBothWays: "{0} kan inte vara både {1} och {2} {3}.",
+            conflictEachOther: "{0} kan inte vara {1} {2} när {2} är {3} {4}.",
+            picking: "Plockar",
+            dropping: "Släpper",
+            goingLeft: "Åker åt vänster",
+            goingRight: "Åker åt höger",
+            // Dialogue
+            greeting: "Vad kan jag göra för dig i dag?",
+            populating: "Vänta medan jag fyller världen.",
+            whatElse: "Vad mer kan jag göra för dig?",
+            tryAgain: "Ok, försök igen.",
+            youWant: "Ok, du vill att jag ska {0}",
+            notAnOptionNumber: "Förlåt, men {0} var inte ett av alternativen som jag gav dig. " +
+                "Välj numret på den mening som du menade eller ge mig nya instruktioner.",
+            didYouMean: 'Förlåt, det förstår jag inte. Menade du "{0}"?',
+            cannotUnderstand: "Förlåt, det förstår jag inte: {0}",
+            ambiguous: "Meningen är tvetydig, jag hittade {0} olika tolkningar.",
+            chooseReading: "Välj numret på den mening som du menade eller ge mig nya instruktioner.",
+            understoodAs: "Jag uppfattade det som: {0}",
+            yes: "Ja, {0}.",
+            noImpossible: "Nej, det är inte fysiskt möjligt.",
+            no: "Nej. {0}",
+        },
+        relations: {
+            inside: "i",
+            ontop: "på",
+            leftof: "till vänster om",
+            rightof: "till höger om",
+            under: "under",
+            above: "ovanför",
+            beside: "bredvid",
+            between: "mellan",
+        },
+        goals: {
+            inside: "i",
+            ontop: "på",
+            leftof: "till vänster om",
+            rightof: "till höger om",
+            under: "under",
+            above: "ovanför",
+            beside: "bredvid",
+            between: "mellan",
+        },
+        removals: {
+            inside: "ur",
+            ontop: "från",
+        },
+        comparisons: {
+            smaller: "mindre",
+            larger: "större",
+            samecolor: "av samma färg",
+            samesize: "av samma storlek",
+            sameform: "av samma form",
+        },
+        verbs: {take: "ta", move: "flytta", remove: "ta bort", ask: "är",
+                where: "var är", count: "räkna", specification: "",
+                swap: "byt plats på", stack: "stapla", unstack: "ta isär"},
+        ordinals: ["första", "andra", "tredje", "fjärde", "femte",
+                   "sjätte", "sjunde", "åttonde", "nionde", "tionde"],
+        yes: /^\s*(ja|ok|okej)\W*$/i,
+        no: /^\s*nej\W*$/i,
+        describe: describeSwedish,
+    };
+
+    // The forms of a Swedish noun: singular, definite singular, plural and
+    // definite plural.
+    var swedishNouns : {[form:string] : string[]} = {
+        anyform:   ["föremål", "föremålet", "föremål", "föremålen"],
+        brick:     ["tegelsten", "tegelstenen", "tegelstenar", "tegelstenarna"],
+        plank:     ["planka", "plankan", "plankor", "plankorna"],
+        ball:      ["boll", "bollen", "bollar", "bollarna"],
+        pyramid:   ["pyramid", "pyramiden", "pyramider", "pyramiderna"],
+        table:     ["bord", "bordet", "bord", "borden"],
+        floor:     ["golv", "golvet", "golv", "golven"],
+        box:       ["låda", "lådan", "lådor", "lådorna"],
+        column:    ["kolumn", "kolumnen", "kolumner", "kolumnerna"],
+        emptyspot: ["plats", "platsen", "platser", "platserna"],
+    };
+    // Nouns of neuter gender, which take "ett" and "det" instead of "en" and "den"
+    var swedishNeuters = ["anyform", "table", "floor"];
+
+    // The forms of a Swedish adjective: common gender, neuter gender,
+    // definite singular and plural.
+    var swedishAdjectives : {[word:string] : string[]} = {
+        small:     ["liten", "litet", "lilla", "små"],
+        large:     ["stor", "stort", "stora", "stora"],
+        black:     ["svart", "svart", "svarta", "svarta"],
+        white:     ["vit", "vitt", "vita", "vita"],
+        blue:      ["blå", "blått", "blå", "blå"],
+        green:     ["grön", "grönt", "gröna", "gröna"],
+        yellow:    ["gul", "gult", "gula", "gula"],
+        red:       ["röd", "rött", "röda", "röda"],
+        empty:     ["tom", "tomt", "tomma", "tomma"],
+        leftmost:  ["vänstra", "vänstra", "vänstra", "vänstra"],
+        rightmost: ["högra", "högra", "högra", "högra"],
+        highest:   ["högsta", "högsta", "högsta", "högsta"],
+        lowest:    ["lägsta", "lägsta", "lägsta", "lägsta"],
+        top:       ["översta", "översta", "översta", "översta"],
+        bottom:    ["nedersta", "nedersta", "nedersta", "nedersta"],
+        largest:   ["största", "största", "största", "största"],
+        smallest:  ["minsta", "minsta", "minsta", "minsta"],
+    };
+
+    function describeSwedish(object : Parser.Object, determiner : string, count : number) : string {
+        if (object.pronoun != undefined) {
+            return object.pronoun == "them" ? "dem" : "den";
+        }
+        if (object.alternatives != undefined) {
+            return object.alternatives.map((alternative) =>
+                describeSwedish(alternative, determiner, count)).join(swedish.templates["or"]);
+        }
+        var plural = isPlural(determiner, count);
+        // Superlatives always pick out definite objects
+        var definite = determiner == "the" || object.superlative != undefined;
+        var neuter = swedishNeuters.indexOf(object.form) != -1;
+        var noun = swedishNouns[object.form] ||
+            [object.form, object.form + "en", object.form + "ar", object.form + "arna"];
+        var adjectives = [object.superlative, object.size, object.color,
+                          object.form == "emptyspot" ? "empty" : undefined]
+            .filter((word) => word != undefined)
+            .map((word) => {
+                var forms = swedishAdjectives[word] || [word, word, word, word];
+                return forms[plural ? 3 : definite ? 2 : neuter ? 1 : 0];
+            });
+        if (object.column != undefined) {
+            adjectives.unshift(ordinal(object.column + 1));
+        }
+        var words = adjectives.concat(noun[(plural ? 2 : 0) + (definite ? 1 : 0)]).join(" ");
+        if (definite) {
+            // A definite noun needs an article only when it has adjectives
+            if (adjectives.length == 0) return words;
+            return (plural ? "de " : neuter ? "det " : "den ") + words;
+        }
+        switch (determiner) {
+          case "any":
+          case "a":
+          case "one":
+            return (neuter ? "ett " : "en ") + words;
+          case "no":
+            return (neuter ? "inget " : "ingen ") + words;
+          case "none":
+            return "inga " + words;
+          case "all":
+            return "alla " + words;
+          case "atleast":
+            return "minst " + count + " " + words;
+          case "atmost":
+            return "högst " + count + " " + words;
+          case "exactly":
+            return "exakt " + count + " " + words;
+          case "number":
+            return count + " " + words;
+          default:
+            return words;
+        }
+    }
+
+    var tables : {[language:string] : Language} = {en: english, sv: swedish};
+}
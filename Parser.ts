@@ -1,4 +1,5 @@
 ///<reference path="World.ts"/>
+///<reference path="Messages.ts"/>
 ///<reference path="lib/node.d.ts"/>
 
 /**
@@ -10,20 +11,28 @@
 *
 */
 module Parser {
-    export function parse(input:string) : ParseResult[] {
-        var nearleyParser = new nearley.Parser(grammar.ParserRules, grammar.ParserStart);
-        var parsestr = input.toLowerCase().replace(/\W/g, "");
+    /**
+     * Parses an input into commands, with the grammar of the current language.
+     * @param input The input string given by the user.
+     * @param state The world, whose colors, sizes, forms and synonyms are added to the grammar.
+     */
+    export function parse(input:string, state? : WorldState) : ParseResult[] {
+        var nearleyParser = new nearley.Parser(getRules(state), getGrammar().ParserStart);
+        var tokens = tokenize(input);
         try {
-            var results : Command[] = nearleyParser.feed(parsestr).results;
+            var results : Command[] = nearleyParser.feed(tokens.map((token) => token.word)).results;
         } catch(err) {
             if ('offset' in err) {
-                throw new Error('Parsing failed after ' + err.offset + ' characters');
+                var token = tokens[err.offset];
+                throw new Error(Messages.text("unexpectedWord", token.word, err.offset + 1,
+                    token.position + 1) + describeExpected(expectedWords(nearleyParser, err.offset)));
             } else {
                 throw err;
             }
         }
         if (!results.length) {
-            throw new Error('Parsing failed, incomplete input');
+            throw new Error(Messages.text("incomplete") +
+                describeExpected(expectedWords(nearleyParser, tokens.length)));
         }
         return results.map((res) => {
             // We need to clone the parse result, because parts of it is shared with other parses
@@ -41,18 +50,25 @@ module Parser {
 
     /** The type of a command for the robot. */
     export interface Command {
-	/** The verb itself, for example "move", "take", "drop" */
+	/** The verb itself, for example "move", "take", "drop", or a question such as "where" */
         command : string;
 	/** The object in the world, i.e. the `Entity`, which is the patient/direct object of `command`. */
         entity? : Entity;
+	/** For "swap", the other object, e.g. the pyramid in "swap the ball and the pyramid". */
+        entity2? : Entity;
 	/** For verbs of motion, this specifies the destination of the action. */
         location? : Location;
+	/** For a "sequence", the commands to perform one after another. */
+        commands? : Command[];
     }
 
     /** A quantified reference (as yet uninterpreted) to an object in the world. */
     export interface Entity {
-	/** Specifies a determiner (e.g. "the", "a/an", "any", "all"). */
+	/** Specifies a determiner (e.g. "the", "a/an", "any", "all"), or a
+	 * counted determiner ("atleast", "atmost", "exactly"). */
         quantifier : string;
+	/** The number of objects for counted determiners, e.g. 2 for "at least two". */
+        count? : number;
         object : Object;
     }
 
@@ -62,6 +78,20 @@ module Parser {
         relation : string;
 	/** The entity relative to which the preposition should be interpreted. */
         entity : Entity;
+	/** For "between", the second entity, e.g. the table in "between the box and the table". */
+        entity2? : Entity;
+	/** False if the location is negated (e.g. "not in a box"), otherwise undefined. */
+        polarity? : boolean;
+    }
+
+    /** A comparison of the attributes of an object with those of other objects. */
+    export interface Comparison {
+	/** "smaller", "larger", "samecolor", "samesize" or "sameform". */
+        relation : string;
+	/** The entity that the object is compared with. If it is missing
+	 * (e.g. "a box of the same color"), the object is compared with
+	 * the other entity of the command. */
+        entity? : Entity;
     }
 
     /**
@@ -71,11 +101,17 @@ module Parser {
      * etc.), all of which are optional. An object can also be
      * described using a relative clause (e.g. "the ball inside the
      * box"), which is given as an object (field `object?`) and a
-     * location (field `location?`).
+     * location (field `location?`). The location of a relative clause
+     * can be negated (e.g. "the ball that is not in a box"), or be
+     * replaced by a comparison (field `comparison?`, e.g. "the ball
+     * that is smaller than the box"). Any
+     * object can also be picked out by a superlative (e.g. "the
+     * leftmost box"), which ranks the objects matching the rest of
+     * its description.
      *
      * This type should really be a union type, but TypeScript doesn't
      * support that. Instead, we include all possible fields and
-     * assume that if `object?` and `location?` are set, the others
+     * assume that if `object?` and `location?` (or `comparison?`) are set, the others
      * will be undefined and vice versa.
      *
      */
@@ -84,12 +120,219 @@ module Parser {
         object? : Object;
 	/** Location of the object in the relative clause. */
         location? : Location;
+	/** Comparison of the object in the relative clause, instead of a location. */
+        comparison? : Comparison;
+	/** Superlative such as "leftmost", "highest", "top" or "largest". */
+        superlative? : string;
+	/** For the forms "column" and "emptyspot", the index of the column (from 0). */
+        column? : number;
+	/** A pronoun ("it" or "them") referring to earlier mentioned objects. */
+        pronoun? : string;
+	/** Alternative objects, any of which is meant (e.g. "a red or blue box"). */
+        alternatives? : Object[];
         // Here is the union type divisor
         size? : string;
         color? : string;
         form? : string;
     }
 
+    /** A word of the input, with the position of its first character. */
+    export interface Token {
+        word : string;
+        position : number;
+    }
+
+    /** Splits the input into lowercase words, ignoring punctuation. Letters
+     * such as "å", "ä" and "ö" are part of words. */
+    export function tokenize(input : string) : Token[] {
+        var tokens : Token[] = [];
+        var pattern = /[\w\u00c0-\u024f]+/g;
+        var match : RegExpExecArray;
+        while ((match = pattern.exec(input.toLowerCase())) != null) {
+            tokens.push({word: match[0], position: match.index});
+        }
+        return tokens;
+    }
+
+    /** A rule of the compiled nearley grammar. */
+    interface GrammarRule {
+        name : string;
+        symbols : {literal? : string; source? : string}[];
+        postprocess? : (d : any[]) => any;
+    }
+
+    /** A grammar compiled by nearley. */
+    interface CompiledGrammar {
+        ParserRules : GrammarRule[];
+        ParserStart : string;
+    }
+
+    /** A partially parsed rule in the nearley chart. */
+    interface ParseState {
+        rule : GrammarRule;
+        expect : number;
+    }
+
+    // Returns the compiled grammar of the current language.
+    function getGrammar() : CompiledGrammar {
+        var grammars : {[language:string] : CompiledGrammar} = {en: grammar, sv: grammarSv};
+        return grammars[Messages.language];
+    }
+
+    // The grammar rules of every language, with string literals matching whole words.
+    var wordRules : {[language:string] : GrammarRule[]} = {};
+
+    /* Nearley splits every string literal of the grammar into one literal
+    per character. The parser is fed whole words, so those rules are joined
+    back into a single literal, and character classes are made to match
+    whole words only. */
+    function getWordRules() : GrammarRule[] {
+        if (wordRules[Messages.language] == undefined) {
+            var rules : GrammarRule[] = getGrammar().ParserRules;
+            wordRules[Messages.language] = rules.map((rule) => {
+                var symbols = rule.symbols.map((symbol) =>
+                    symbol instanceof RegExp ? new RegExp("^(?:" + symbol.source + ")+$") : symbol);
+                rule = {name: rule.name, symbols: symbols, postprocess: rule.postprocess};
+                var isString = /\$string\$\d+$/.test(rule.name) &&
+                    rule.symbols.every((symbol) => symbol.literal != undefined);
+                if (!isString) return rule;
+                var word = rule.symbols.map((symbol) => symbol.literal).join("");
+                return {name: rule.name, symbols: [{literal: word}], postprocess: rule.postprocess};
+            });
+        }
+        return wordRules[Messages.language];
+    }
+
+    /* Adds the colors, sizes and forms of the objects in the world, and the
+    synonyms of the world, to the grammar rules. Words that the grammar
+    already knows keep their meaning. */
+    function getRules(state : WorldState) : GrammarRule[] {
+        var rules = getWordRules();
+        if (state == undefined) return rules;
+        var lexicon = getLexicon(rules);
+        var worldRules : GrammarRule[] = [];
+        function addWord(name : string, word : string, value : string) {
+            if (word == null || lexicon.indexOf(word) != -1) return;
+            lexicon.push(word);
+            var symbols = word.split(/\s+/).map((part) => ({literal: part}));
+            worldRules.push({name: name, symbols: symbols, postprocess: () => value});
+        }
+        function addForm(word : string, value : string) {
+            addWord("formSG", word, value);
+            addWord("formPL", getPlural(word), value);
+        }
+        for (var label in state.objects) {
+            var object = state.objects[label];
+            addWord("color", object.color, object.color);
+            addWord("size", object.size, object.size);
+            addForm(object.form, object.form);
+        }
+        var synonyms : Synonyms = state.synonyms || {};
+        for (var word in synonyms.color) addWord("color", word, synonyms.color[word]);
+        for (var word in synonyms.size) addWord("size", word, synonyms.size[word]);
+        for (var word in synonyms.form) addForm(word, synonyms.form[word]);
+        return rules.concat(worldRules);
+    }
+
+    // Returns the words that the parser would have accepted after the given
+    // number of words.
+    function expectedWords(parser : {table : ParseState[][]}, position : number) : string[] {
+        var words : string[] = [];
+        for (var state of parser.table[position]) {
+            var symbol = state.rule.symbols[state.expect];
+            if (symbol != undefined && symbol.literal != undefined &&
+                words.indexOf(symbol.literal) == -1) {
+                words.push(symbol.literal);
+            }
+        }
+        return words.sort();
+    }
+
+    /**
+     * Suggests a spelling correction for an input that cannot be parsed,
+     * by replacing unknown words with the closest words that the grammar
+     * accepts in their place.
+     * @param input The input string given by the user.
+     * @param state The world, whose words are added to the grammar.
+     * @returns The corrected input, or null if no correction can be parsed.
+     */
+    export function suggestCorrection(input : string, state? : WorldState) : string {
+        return correctInput(input, getRules(state), 0);
+    }
+
+    // The largest number of misspelled words in one input
+    var maxCorrections = 3;
+
+    function correctInput(input : string, rules : GrammarRule[], corrections : number) : string {
+        var nearleyParser = new nearley.Parser(rules, getGrammar().ParserStart);
+        var tokens = tokenize(input);
+        try {
+            var results : Command[] = nearleyParser.feed(tokens.map((token) => token.word)).results;
+            return (results.length && corrections > 0) ? input : null;
+        } catch(err) {
+            if (!('offset' in err) || corrections == maxCorrections) return null;
+            var token = tokens[err.offset];
+            // Only unknown words are misspelled, known words are misplaced
+            if (getLexicon(rules).indexOf(token.word) != -1) return null;
+            var candidates = closestWords(token.word, expectedWords(nearleyParser, err.offset));
+            for (var word of candidates) {
+                var corrected = input.slice(0, token.position) + word +
+                    input.slice(token.position + token.word.length);
+                var result = correctInput(corrected, rules, corrections + 1);
+                if (result != null) return result;
+            }
+            return null;
+        }
+    }
+
+    // Returns every word of the grammar rules.
+    function getLexicon(rules : GrammarRule[]) : string[] {
+        var words : string[] = [];
+        for (var rule of rules) {
+            for (var symbol of rule.symbols) {
+                if (symbol.literal != undefined && words.indexOf(symbol.literal) == -1) {
+                    words.push(symbol.literal);
+                }
+            }
+        }
+        return words;
+    }
+
+    // Returns the candidates that are close enough to be a misspelling of
+    // the word, the closest first.
+    function closestWords(word : string, candidates : string[]) : string[] {
+        var maxDistance = word.length <= 4 ? 1 : 2;
+        var distances : {[candidate:string] : number} = {};
+        for (var candidate of candidates) {
+            distances[candidate] = editDistance(word, candidate);
+        }
+        return candidates.filter((candidate) => distances[candidate] <= maxDistance)
+            .sort((a, b) => distances[a] - distances[b]);
+    }
+
+    // The number of inserted, deleted, replaced or swapped adjacent letters
+    // needed to turn one word into another.
+    function editDistance(a : string, b : string) : number {
+        var d : number[][] = [];
+        for (var i = 0; i <= a.length; i++) {
+            d.push([i]);
+            for (var j = 1; j <= b.length; j++) {
+                d[i].push(i == 0 ? j : Math.min(d[i-1][j] + 1, d[i][j-1] + 1,
+                    d[i-1][j-1] + (a[i-1] == b[j-1] ? 0 : 1)));
+                if (i > 1 && j > 1 && a[i-1] == b[j-2] && a[i-2] == b[j-1]) {
+                    d[i][j] = Math.min(d[i][j], d[i-2][j-2] + 1);
+                }
+            }
+        }
+        return d[a.length][b.length];
+    }
+
+    function describeExpected(words : string[]) : string {
+        if (words.length == 0) return Messages.text("expectedNothing");
+        if (words.length == 1) return Messages.text("expectedWord", words[0]);
+        return Messages.text("expectedWords", words.map((word) => '"' + word + '"').join(", "));
+    }
+
     export function stringify(result : ParseResult) : string {
         return JSON.stringify(result.parse);
     }
@@ -101,33 +344,69 @@ module Parser {
     //Returns a string with "that is" in the right place given a parse.
     //Used when handling certain ambiguities.
     export function intelligentStringify(parse : ParseResult) : string {
+      return readingParts(parse).join(" ");
+    }
+
+    //Returns the parts of the reading of a parse: every command with its
+    //object, followed by its location if it has one.
+    export function readingParts(parse : ParseResult) : string[] {
       var cmd : Command = parse.parse;
+      if(cmd.command == "sequence") {
+        var parts : string[] = [];
+        cmd.commands.forEach((command, n) => {
+          var commandParts = readingParts({input: parse.input, parse: command});
+          if(n > 0)
+            commandParts[0] = Messages.text("andThen", commandParts[0]);
+          parts = parts.concat(commandParts);
+        });
+        return parts;
+      }
       if(cmd.entity == undefined) {
-        return cmd.command + " it " + cmd.location.relation + " " +
-          entityToString(cmd.location.entity);
+        return [Messages.text("makeSureNothing", locationToString(cmd.location))];
       }
-      var result = cmd.command + " " + entityToString(cmd.entity);
-      if(cmd.location == undefined)
-        return result;
-      else {
-        return result + " " + prettifyRelation(cmd.location.relation) + " " +
-            entityToString(cmd.location.entity);
+      var parts = [(Messages.verb(cmd.command) + " " + entityToString(cmd.entity)).trim()];
+      if(cmd.entity2 != undefined) {
+        parts[0] += Messages.text("and") + entityToString(cmd.entity2);
       }
-      //Recursively builds the string.
-      function entityToString(entity : Entity) : string {
-        var obj = entity.object.object;
-        var objQuantifier = entity.quantifier;
-
-        if(entity.object.object == null) {
-          return objQuantifier + " " +
-              minimalDescription(entity.object, objQuantifier);
-        } else {
-          var relation = prettifyRelation(entity.object.location.relation);
-          var nextEntity : Entity = entity.object.location.entity;
-          return objQuantifier + " " + minimalDescription(obj, objQuantifier) +
-            " that is " + relation + " " + entityToString(nextEntity);
-        }
+      if(cmd.location != undefined) {
+        parts.push(locationToString(cmd.location));
       }
+      return parts;
+    }
+
+    //Recursively builds the string of an entity.
+    function entityToString(entity : Entity) : string {
+      var object = entity.object;
+      if(object.object == null) {
+        return Messages.describe(object, entity.quantifier, entity.count);
+      }
+      // The superlative of a relative clause belongs to its object
+      var described = object.object;
+      var inner : Object = {object: described.object, location: described.location,
+        comparison: described.comparison, superlative: described.superlative || object.superlative,
+        column: described.column, pronoun: described.pronoun, alternatives: described.alternatives,
+        size: described.size, color: described.color, form: described.form};
+      if(object.comparison != undefined) {
+        return Messages.text("relativeClause", Messages.describe(inner, entity.quantifier, entity.count),
+            comparisonToString(object.comparison));
+      }
+      var clause = object.location.polarity == false ? "negativeClause" : "relativeClause";
+      return Messages.text(clause, Messages.describe(inner, entity.quantifier, entity.count),
+          locationToString(object.location));
+    }
+
+    //Returns the string of a comparison, e.g. "smaller than the red table".
+    function comparisonToString(comparison : Comparison) : string {
+      return Messages.comparison(comparison.relation,
+          comparison.entity == undefined ? undefined : entityToString(comparison.entity));
+    }
+
+    //Returns the string of a location, e.g. "inside of a box".
+    function locationToString(location : Location) : string {
+      var entities = entityToString(location.entity);
+      if(location.entity2 != undefined)
+        entities += Messages.text("and") + entityToString(location.entity2);
+      return Messages.relation(location.relation) + " " + entities;
     }
 
     export function getPlural(form : string) : string {
@@ -141,54 +420,23 @@ module Parser {
       }
     }
 
-    export function prettifyRelation(relation : string) : string {
-          switch(relation) {
-            case "inside":
-              return "inside of"
-            case "ontop":
-              return "on top of"
-            case "leftof":
-              return "to the left of"
-            case "rightof":
-              return "to the right of"
-            case "under":
-            case "above":
-            case "beside":
-              return relation;
-            default:
-              throw "I should not be here..."
-          }
-        }
-
-    //Returns the minimal description of an object given its object definition.
-    export function minimalDescription(object : Object, quantifier : string) : string {
-      var size : string = (object.size == undefined)? "" : object.size + " ";
-      var color : string = (object.color == undefined)? "" : object.color + " ";
-
-      if(quantifier == "all")
-        var form : string = getPlural(object.form);
-      else
-        var form : string = (object.form == "anyform")? "object" : object.form;
-
-      return size + color + form;
-    }
-
 }
 
 // TypeScript declarations for external JavaScript modules
 
 declare module "grammar" {
-    export var ParserRules : { [s:string]: any };
+    export var ParserRules : { [s:string]: any }[];
     export var ParserStart : string;
 }
 
 
 declare module "nearley" {
     export class Parser {
-        constructor(rules: {[s:string]:any}, start: string);
-        feed(sentence: string) : {
+        constructor(rules: { [s:string]: any }[], start: string);
+        feed(sentence: string[]) : {
             results : Parser.Command[];
         }
+        table : { [s:string]: any }[][];
     }
 }
 
@@ -198,4 +446,5 @@ if (typeof require !== 'undefined') {
     // In a browser, they must be included from the HTML file
     var nearley = require('./lib/nearley.js');
     var grammar = require('./grammar.js');
+    var grammarSv = require('./grammar-sv.js');
 }
@@ -0,0 +1,151 @@
+///<reference path="World.ts"/>
+///<reference path="Messages.ts"/>
+
+/**
+* Physics module
+*
+* The physical laws of the world, written as a table of rules. Every
+* rule forbids one way of putting an object directly on top of or
+* inside another object, and explains why to the user. An object can
+* be put somewhere unless a rule forbids it.
+*
+* A world state can bring its own rules, e.g. to relax the laws in a
+* sandbox world; otherwise the default rules below hold.
+*/
+module Physics {
+
+    /** The form and size of an object, where undefined or null means unknown. */
+    export interface Solid {
+        form? : string;
+        size? : string;
+    }
+
+    /** The objects that a rule applies to. A missing field matches every object. */
+    export interface Pattern {
+        /** The forms that match. */
+        forms? : string[];
+        /** The forms that do not match. */
+        exceptForms? : string[];
+        /** The sizes that match. */
+        sizes? : string[];
+    }
+
+    /** A physical law, which forbids putting some objects on or in others. */
+    export interface Rule {
+        /** "ontop" or "inside". */
+        relation : string;
+        /** The object that is put on top or inside. */
+        object? : Pattern;
+        /** The object below it, or around it for "inside". */
+        support? : Pattern;
+        /** If true, the rule only applies when both objects have the same size. */
+        sameSize? : boolean;
+        /** The key of the message that explains the rule. The message is
+         * given the object and the support in plural, e.g. "large balls". */
+        explanation : string;
+    }
+
+    /** The laws of the world unless a world state gives its own. */
+    export var defaultRules : Rule[] = [
+        {relation: "inside", support: {exceptForms: ["box"]},
+         explanation: "onlyInsideBox"},
+        {relation: "inside", object: {forms: ["box", "pyramid", "plank"]},
+         support: {forms: ["box"]}, sameSize: true,
+         explanation: "containSmaller"},
+        {relation: "inside", object: {forms: ["box", "pyramid", "plank"]},
+         support: {forms: ["box"], sizes: ["small"]},
+         explanation: "containSmaller"},
+        {relation: "inside", object: {sizes: ["large"]}, support: {sizes: ["small"]},
+         explanation: "containLarge"},
+        {relation: "ontop", support: {forms: ["box"]},
+         explanation: "notOnTopOfBox"},
+        {relation: "ontop", object: {sizes: ["large"]}, support: {sizes: ["small"]},
+         explanation: "cannotSupport"},
+        {relation: "ontop", support: {forms: ["ball"]},
+         explanation: "ballsSupport"},
+        {relation: "ontop", object: {forms: ["ball"]}, support: {exceptForms: ["floor", "box"]},
+         explanation: "ballsPlace"},
+        {relation: "ontop", object: {forms: ["box"], sizes: ["small"]},
+         support: {forms: ["brick", "pyramid"], sizes: ["small"]},
+         explanation: "smallBoxesSupport"},
+        {relation: "ontop", object: {forms: ["box"], sizes: ["large"]},
+         support: {forms: ["pyramid"], sizes: ["large"]},
+         explanation: "largeBoxesSupport"},
+    ];
+
+    /** Returns the rules that hold in a world state. */
+    export function rules(state : WorldState) : Rule[] {
+        return state.physics || defaultRules;
+    }
+
+    /**
+     * Finds the first rule that forbids putting an object directly on top
+     * of or inside another. Unknown forms and sizes only match the rules
+     * that hold for every form or size.
+     * @returns The rule, or null if the relation is allowed.
+     */
+    export function violatedRule(object : Solid, support : Solid, relation : string,
+                                 rules : Rule[]) : Rule {
+        for (var rule of rules) {
+            if (rule.relation == relation &&
+                matches(object, rule.object) && matches(support, rule.support) &&
+                (!rule.sameSize || (object.size != null && object.size == support.size))) {
+                return rule;
+            }
+        }
+        return null;
+    }
+
+    /** Checks if an object can be put directly on top of or inside another. */
+    export function allows(object : Solid, support : Solid, relation : string,
+                           rules : Rule[]) : boolean {
+        return violatedRule(object, support, relation, rules) == null;
+    }
+
+    /** Checks if anything at all can be put on top of or inside an object. */
+    export function canSupport(support : Solid, rules : Rule[]) : boolean {
+        return ["ontop", "inside"].some((relation) => rules.every((rule) =>
+            rule.relation != relation || rule.object != undefined ||
+            !matches(support, rule.support)));
+    }
+
+    /** Checks if a rule that only depends on sizes forbids an object from
+     * being anywhere above another, since every object between them would
+     * be forbidden by the same rule. */
+    export function sizeForbids(object : Solid, support : Solid, rules : Rule[]) : boolean {
+        return rules.some((rule) => !hasForms(rule.object) && !hasForms(rule.support) &&
+            !rule.sameSize && matches(object, rule.object) && matches(support, rule.support));
+    }
+
+    /** Explains a rule for the given objects, in the current language. */
+    export function explain(rule : Rule, object : Solid, support : Solid) : string {
+        var describe = (solid : Solid) => Messages.describe(
+            {size: solid.size, color: null, form: solid.form}, "plural");
+        return Messages.capitalize(Messages.text(rule.explanation,
+            describe(object), describe(support)));
+    }
+
+    /** Assuming that the arm is holding an object, checks if it can be dropped. */
+    export function canDrop(state : WorldState) : boolean {
+        var stack = state.stacks[state.arm];
+        var object = state.objects[state.holding];
+        var support : Solid = stack.length == 0 ? {form: "floor"} :
+            state.objects[stack[stack.length - 1]];
+        return allows(object, support, "ontop", rules(state)) ||
+               allows(object, support, "inside", rules(state));
+    }
+
+    function matches(solid : Solid, pattern : Pattern) : boolean {
+        if (pattern == undefined) return true;
+        if (pattern.forms != undefined && pattern.forms.indexOf(solid.form) == -1) return false;
+        if (pattern.exceptForms != undefined && pattern.exceptForms.indexOf(solid.form) != -1) return false;
+        if (pattern.sizes != undefined && pattern.sizes.indexOf(solid.size) == -1) return false;
+        return true;
+    }
+
+    function hasForms(pattern : Pattern) : boolean {
+        return pattern != undefined &&
+            (pattern.forms != undefined || pattern.exceptForms != undefined);
+    }
+
+}
@@ -1,5 +1,8 @@
 ///<reference path="World.ts"/>
 ///<reference path="Interpreter.ts"/>
+///<reference path="Messages.ts"/>
+///<reference path="Errors.ts"/>
+///<reference path="Physics.ts"/>
 ///<reference path="Graph.ts"/>
 ///<reference path="lib/collections.ts"/>
 
@@ -27,6 +30,7 @@ module Planner {
         interpretations.forEach((interpretation) => {
             try {
                 var result : PlannerResult = <PlannerResult>interpretation;
+                result.interpretation = consistentGoal(result.interpretation, currentState);
                 result.plan = planInterpretation(result.interpretation, currentState);
                 plans.push(result);
             } catch(err) {
@@ -74,6 +78,7 @@ module Planner {
             this.arm = state.arm;
             this.objects = state.objects;
             this.examples = state.examples;
+            this.physics = state.physics;
             for(var stack of state.stacks){
                 var clonedStack : string[] = [];
                 for(var label of stack){
@@ -111,6 +116,7 @@ module Planner {
         arm: number;
         objects: { [s: string]: ObjectDefinition; };
         examples: string[];
+        physics: Physics.Rule[];
     }
 
     /*
@@ -139,7 +145,7 @@ module Planner {
             if (node.state.holding == null){
                 if(canPickup(node.state)) addEdge(state, cs => cs.pickup())
             } else {
-                if(canDrop(node.state)) addEdge(state, cs => cs.drop());
+                if(Physics.canDrop(node.state)) addEdge(state, cs => cs.drop());
             }
             return outEdges;
         }
@@ -162,15 +168,6 @@ module Planner {
         }
     }
 
-    //Assuming that the arm is holding an object checks if it can be dropped.
-    function canDrop(state: WorldState) : boolean{
-        var stack = state.stacks[state.arm];
-        var topLabel = stack.length == 0? "floor" : stack[stack.length - 1];
-        var isPhysicallyCorrect = Interpreter.isPhysicallyCorrect;
-        return isPhysicallyCorrect(state.holding, topLabel, "ontop", state) ||
-               isPhysicallyCorrect(state.holding, topLabel, "inside", state);
-    }
-
     //Assuming that the arm is not holding anything checks if it can pick up
     //something from the stack where the arm is located.
     function canPickup(state: WorldState): boolean{
@@ -193,6 +190,32 @@ module Planner {
         var stackIndex = Interpreter.findStack(label1, state);
         var stack = stacks[stackIndex];
         var heightLabel1 = Interpreter.findHeight(label1, stack);
+        if (literal.relation == "between") {
+            // The object must be in a column strictly between the other two
+            var columns = literal.args.slice(1).map((label) => Interpreter.findStack(label, state));
+            if (columns[0] == null || columns[1] == null) return !literal.polarity;
+            return (Math.min(columns[0], columns[1]) < stackIndex &&
+                    stackIndex < Math.max(columns[0], columns[1])) == literal.polarity;
+        }
+        var column = Interpreter.floorColumn(label2);
+        if (column != null) {
+            // Relations to the floor in a single column only depend on the
+            // stack of the object.
+            switch (literal.relation) {
+                case "inside":
+                case "ontop":
+                    return (stackIndex == column && heightLabel1 == 0) == literal.polarity;
+                case "above":
+                    return (stackIndex == column) == literal.polarity;
+                case "leftof":
+                    return (stackIndex < column) == literal.polarity;
+                case "rightof":
+                    return (stackIndex > column) == literal.polarity;
+                case "beside":
+                    return (Math.abs(stackIndex - column) == 1) == literal.polarity;
+            }
+            return !literal.polarity;
+        }
         switch (literal.relation) {
             case "leftof":
                 for (var i = stackIndex + 1; i < stacks.length; i++) {
@@ -240,6 +263,36 @@ module Planner {
         return !literal.polarity;
     }
 
+    /**
+     * Performs the robot actions of a plan on a copy of a world state.
+     * @param plan A plan of movements (l,r,p,d), possibly mixed with utterances.
+     * @param state The world state to start from. It is not modified.
+     * @returns The world state after the plan has been performed.
+     */
+    export function simulatePlan(plan : string[], state : WorldState) : WorldState {
+        var world = new ClonedWorld(state);
+        var actions : {[act:string] : () => string} =
+            {l: () => world.moveLeft(), r: () => world.moveRight(),
+             p: () => world.pickup(), d: () => world.drop()};
+        for (var item of plan) {
+            if (actions[item]) actions[item]();
+        }
+        return world;
+    }
+
+    /**
+     * Checks a formula against a world state without planning.
+     * @returns The first conjunction of the formula that is true in the given state, or null if there is none.
+     */
+    export function satisfiedConjunction(formula : Interpreter.DNFFormula, state : WorldState) : Interpreter.Literal[] {
+        for (var conjunction of formula) {
+            if (conjunction.every((literal) => isLitTrue(literal, state))) {
+                return conjunction;
+            }
+        }
+        return null;
+    }
+
     /*
      * Calculates the minimum amount of moves needed to fulfill the given
      * literal. Takes into consideration the cost of exposing an object
@@ -249,6 +302,8 @@ module Planner {
     function informedHeuristics(literal :Interpreter.Literal, state:WorldState){
         if (isLitTrue(literal, state)) return 0;
         var label1 = literal.args[0];
+        if (!literal.polarity)
+            return costToFalsify(literal);
         if(literal.relation == "holding")
             return costMovingTo(label1) + costToExpose(label1) + 1;
         var label2 = literal.args[1];
@@ -304,6 +359,32 @@ module Planner {
             return si1 == si2;
         }
 
+        // Making a relation false means moving one of its objects away: picking
+        // it up, moving at least one step and dropping it somewhere else.
+        function costToFalsify(literal : Interpreter.Literal) : number{
+            var l1 = literal.args[0];
+            var l2 = literal.args[1];
+            switch (literal.relation) {
+                case "holding":
+                    return 1;
+                case "inside":
+                case "ontop":
+                case "above":
+                    return costMovingAway(l1);
+                case "under":
+                    return costMovingAway(l2);
+                case "between":
+                    return Math.min(costMovingAway(l1), costMovingAway(l2),
+                                    costMovingAway(literal.args[2]));
+            }
+            return Math.min(costMovingAway(l1), costMovingAway(l2));
+        }
+
+        function costMovingAway(label : string) : number{
+            if (label == state.holding) return 2;
+            return costMovingTo(label) + costToExpose(label) + 3;
+        }
+
         switch (literal.relation) {
             case "leftof":
             case "rightof":
@@ -327,33 +408,55 @@ module Planner {
             case "above":
                 return costMovingTo(label1) + costToExpose(label1) +
                        stepsBetween(label1, label2);
+            case "between":
+                var label3 = literal.args[2];
+                if (label2 == state.holding || label3 == state.holding) return 1;
+                var lo = Math.min(Interpreter.findStack(label2, state), Interpreter.findStack(label3, state));
+                var hi = Math.max(Interpreter.findStack(label2, state), Interpreter.findStack(label3, state));
+                // Either the object is moved into a column between the others,
+                // or one of the others is moved to the other side of it
+                var from = label1 == state.holding ? state.arm : Interpreter.findStack(label1, state);
+                var cost = hi - lo < 2 ? Infinity : costMovingTo(label1) + costToExpose(label1) +
+                    Math.max(lo + 1 - from, from - (hi - 1), 0) + 1;
+                for (var label of [label2, label3]) {
+                    if (!Interpreter.isFloor(label)) {
+                        cost = Math.min(cost, costMovingTo(label) + costToExpose(label) + 1);
+                    }
+                }
+                return cost;
         }
         return 0;
     }
 
-    //Given a label finds the minimum unique description of the corresponding
-    //object in the world state.
-    function minimalInfo(label: string, state : WorldState) : string{
-        if (label == "floor") return label;
-        var obj = state.objects[label];
-        var labels = Array.prototype.concat.apply([], state.stacks);
-        if (state.holding != null) labels.push(state.holding);
-        var checks = [ {size: null, color: null, form: obj.form},
-                       {size: null, color : obj.color, form : obj.form},
-                       {size: obj.size, color : null, form : obj.form},
-                       {size: obj.size, color : obj.color, form : obj.form} ];
-        function stringify(c : ObjectDefinition) : string{
-            return (c.size == null? "" : (c.size + " ")) +
-                   (c.color == null? "" : (c.color + " ")) +
-                   c.form;
-        }
-        for (var i = 0; i < checks.length; i++){
-            var c = checks[i]
-            if (Interpreter.filterLabels(labels, c.size, c.color, c.form, state).length == 1)
-              return stringify(c);
-        }
-        // cannot find an individual object based on size, color and form
-        return stringify(checks[3]);
+    //Returns the labels of the objects that a goal formula is about.
+    function goalLabels(interpretation : Interpreter.DNFFormula) : string[] {
+        var labels : string[] = [];
+        for (var conjunction of interpretation) {
+            for (var literal of conjunction) {
+                for (var label of literal.args) {
+                    if (!Interpreter.isFloor(label) && labels.indexOf(label) == -1) {
+                        labels.push(label);
+                    }
+                }
+            }
+        }
+        return labels;
+    }
+
+    /**
+     * Removes the conjunctions of a goal that can never hold, since the
+     * search would never find a state where they do.
+     * @throws An Errors.UnreachableGoalError that explains why, if no
+     * conjunction can hold.
+     */
+    export function consistentGoal(interpretation : Interpreter.DNFFormula,
+                                   state : WorldState) : Interpreter.DNFFormula {
+        var consistent = interpretation.filter((conjunction) => !Interpreter.hasConflict(conjunction));
+        if (consistent.length == 0 && interpretation.length > 0) {
+            throw new Errors.UnreachableGoalError(
+                Interpreter.explainConflict(interpretation[0], state), goalLabels(interpretation));
+        }
+        return consistent;
     }
 
     //Concats two lists of strings.
@@ -373,16 +476,7 @@ module Planner {
         var startNode: SearchNode = new SearchNode(state, null);
 
         function goal(node : SearchNode) : boolean{
-            for(var conjunction of interpretation){
-                var conjunctionResult = true;
-                for(var literal of conjunction){
-                    if (!isLitTrue(literal, node.state)) {
-                        conjunctionResult = false;
-                    }
-                }
-                if (conjunctionResult) return true;
-            }
-            return false;
+            return satisfiedConjunction(interpretation, node.state) != null;
         }
 
         function heuristics(node: SearchNode): number {
@@ -404,7 +498,18 @@ module Planner {
 
         //Intelligently prints all steps along the way of the plan.
         var plan : string[] = [];
-        var result = aStarSearch(graph, startNode, goal, heuristics, 10);
+        var timeout = 10;
+        var startTime = Date.now();
+        try {
+            var result = aStarSearch(graph, startNode, goal, heuristics, timeout);
+        } catch(err) {
+            // The search gives up when it runs out of either time or states
+            var labels = goalLabels(interpretation);
+            if (Date.now() - startTime > timeout * 1000) {
+                throw new Errors.SearchTimeoutError(Messages.text("searchTimeout"), labels);
+            }
+            throw new Errors.UnreachableGoalError(Messages.text("unreachableGoal"), labels);
+        }
         var pickup : boolean = false;
         var movements : string[] = [];
         for(var i = 0; i < result.path.length; i++){
@@ -415,7 +520,7 @@ module Planner {
                 pickup = true;
                 if(result.path.length == i + 1) {
                     var label = node.state.holding;
-                    plan.push("Picking up the " + minimalInfo(label, state) + ".");
+                    plan.push(Messages.text("pickingUp", Interpreter.minimalInfo(label, state)));
                     concatStrings(plan,movements);
                 }
             } else if (action == "d") {
@@ -423,15 +528,15 @@ module Planner {
                 var label1 = stack[stack.length - 1];
                 var label2 = stack.length < 2 ? "floor" : stack[stack.length - 2];
                 var form2 = label2 == "floor" ? null : state.objects[label2].form;
-                var inon = form2 == "box" ? " in " : " on "
+                var inon = Messages.text(form2 == "box" ? "in" : "on");
                 if(pickup) {
-                    plan.push("Moving the " + minimalInfo(label1, state) + " to the " + minimalInfo(label2, state) + ".");
+                    plan.push(Messages.text("moving", Interpreter.minimalInfo(label1, state), Interpreter.minimalInfo(label2, state)));
                     concatStrings(plan,movements);
                     movements = [];
                     plan.push(action);
                     pickup = false;
                 } else {
-                    plan.push("Putting the " + minimalInfo(label1, state) + inon + "the " + minimalInfo(label2,state) + ".");
+                    plan.push(Messages.text("putting", Interpreter.minimalInfo(label1, state), inon, Interpreter.minimalInfo(label2,state)));
                     concatStrings(plan,movements);
                     movements = [];
                     plan.push(action);
@@ -441,9 +546,8 @@ module Planner {
             }
         }
         if(plan.length == 0){
-          plan.push("That is already true!");
+          plan.push(Messages.text("alreadyTrue"));
         }
-        plan.push("What else can I do for you?");
         return plan;
     }
 }
@@ -1,4 +1,6 @@
 ///<reference path="World.ts"/>
+///<reference path="Physics.ts"/>
+///<reference path="Messages.ts"/>
 ///<reference path="lib/jquery.d.ts" />
 
 
@@ -108,8 +110,8 @@ class SVGWorld implements World {
 
     public printWorld(callback? : () => void) : void {
         this.containers.world.empty();
-        this.printSystemOutput("Please wait while I populate the world.")
-        this.printSystemOutput("What can I do for you today?");
+        this.printSystemOutput(Messages.text("populating"))
+        this.printSystemOutput(Messages.text("greeting"));
 
         var viewBox : number[] = [0, 0, this.canvasWidth + 2 * this.wallSeparation,
                                   this.canvasHeight + this.floorThickness];
@@ -268,6 +270,9 @@ class SVGWorld implements World {
         if (!this.currentState.holding) {
             throw "Not holding anything!";
         }
+        if (!Physics.canDrop(this.currentState)) {
+            throw "Cannot drop that here!";
+        }
         this.verticalMove('drop', callback);
         this.currentState.stacks[this.currentState.arm].push(this.currentState.holding);
         this.currentState.holding = null;
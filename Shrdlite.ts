@@ -2,16 +2,20 @@
 ///<reference path="Parser.ts"/>
 ///<reference path="Interpreter.ts"/>
 ///<reference path="Planner.ts"/>
+///<reference path="Messages.ts"/>
+///<reference path="Dialogue.ts"/>
+///<reference path="Errors.ts"/>
 
 module Shrdlite {
 
     export function interactive(world : World) : void {
+        var dialogue = Dialogue.newContext();
         function endlessLoop(utterance : string = "") : void {
             var nextInput = () => world.readUserInput("", endlessLoop);
             if (utterance.trim()) {
                 var plan : string[] = splitStringIntoPlan(utterance);
                 if (!plan) {
-                    plan = parseUtteranceIntoPlan(world, utterance);
+                    plan = parseUtteranceIntoPlan(world, utterance, dialogue);
                 }
                 if (plan) {
                     world.printDebugInfo("Plan: " + plan.join(", "));
@@ -46,81 +50,278 @@ module Shrdlite {
      *
      * @param world The current world.
      * @param utterance The string that represents the command.
-     * @returns A plan in the form of a stack of strings, where each element is either a robot action, like "p" (for pick up) or "r" (for going right), or a system utterance in English that describes what the robot is doing.
+     * @param dialogue The dialogue that the utterance belongs to, which remembers the questions that the system has asked and the objects that earlier utterances referred to.
+     * @returns A plan in the form of a stack of strings, where each element is either a robot action, like "p" (for pick up) or "r" (for going right), or a system utterance in the current language that describes what the robot is doing.
      */
-    export function parseUtteranceIntoPlan(world : World, utterance : string) : string[] {
+    export function parseUtteranceIntoPlan(world : World, utterance : string,
+        dialogue : Dialogue.DialogueContext) : string[] {
         // Parsing
         world.printDebugInfo('Parsing utterance: "' + utterance + '"');
+        var suggestion = dialogue.suggestion;
+        dialogue.suggestion = undefined;
+        if (suggestion && Messages.isYes(utterance)) {
+            utterance = suggestion;
+        } else if (suggestion && Messages.isNo(utterance)) {
+            world.printSystemOutput(Messages.text("tryAgain"));
+            return;
+        }
         var firstWord = utterance.split(" ")[0];
         var enteredNumber : number = Number(firstWord);
-        if(world.currentState.ambigousParses &&
+        if(dialogue.ambiguousParses &&
             !isNaN(enteredNumber)) {
-            if(enteredNumber <= world.currentState.ambigousParses.length &&
+            if(enteredNumber <= dialogue.ambiguousParses.length &&
             enteredNumber > 0) {
               var parses : Parser.ParseResult[] = [];
-              parses.push(world.currentState.ambigousParses[enteredNumber - 1]);
-              world.printSystemOutput("Ok, you want me to " + Parser.intelligentStringify(parses[0]));
+              parses.push(dialogue.ambiguousParses[enteredNumber - 1]);
+              world.printSystemOutput(Messages.text("youWant", Parser.intelligentStringify(parses[0])));
             } else {
-              world.printSystemOutput("Sorry, but " + enteredNumber +
-                " was not one of the options I gave you. Please choose the number of the utterance you had in mind or give me new instructions.")
+              world.printSystemOutput(Messages.text("notAnOptionNumber", enteredNumber));
               return;
             }
         } else {
           try {
-              var parses : Parser.ParseResult[] = Parser.parse(utterance);
+              var parses : Parser.ParseResult[] = Parser.parse(utterance, world.currentState);
               world.printDebugInfo("Found " + parses.length + " parses");
               parses.forEach((result, n) => {
                   world.printDebugInfo("  (" + n + ") " + Parser.stringify(result));
               });
           }
           catch(err) {
-              world.printSystemOutput("Sorry I cannot understand this, please try again.")
+              var correction = Parser.suggestCorrection(utterance, world.currentState);
+              if (correction) {
+                  world.printSystemOutput(Messages.text("didYouMean", correction));
+                  dialogue.suggestion = correction;
+              } else {
+                  world.printSystemOutput(Messages.text("cannotUnderstand", err.message));
+              }
               return;
           }
       }
-      world.currentState.ambigousParses = undefined;
+      dialogue.ambiguousParses = undefined;
 
-      if(parses.length > 1) {
-        world.printSystemOutput("This utterance is ambiguous, I found "
-          + parses.length + " different parses.")
-        for(var i = 0; i < parses.length; i++) {
-          world.printSystemOutput(" " + (i + 1) + ": " + Parser.intelligentStringify(parses[i]));
+        // Every parse is interpreted and planned in a copy of the dialogue,
+        // and the ones that cannot be are dropped, unless the system has to
+        // ask which object is meant. Parses with the same goal are the same reading.
+        var readings : Reading[] = [];
+        var failures : Failure[] = [];
+        for (var parse of parses) {
+            var context = Dialogue.copyContext(dialogue);
+            try {
+                var reading = planReading(world, parse, context);
+                if (readings.every((other) => other.goal != reading.goal)) {
+                    readings.push(reading);
+                }
+            } catch(err) {
+                failures.push({error: err, dialogue: context});
+            }
+        }
+        var questions = failures.filter((failure) =>
+            (<Errors.ShrdliteError>failure.error).code == "ambiguous-reference");
+        if (questions.length > 0 || readings.length == 0) {
+            var failure = questions.length > 0 ? questions[0] : failures[0];
+            Dialogue.restoreContext(dialogue, failure.dialogue);
+            world.printSystemOutput(failure.error.message);
+            return;
         }
 
-        world.printSystemOutput("Please choose the number of the utterance you had in mind or give me new instructions.");
-        world.currentState.ambigousParses = parses;
-        return;
-      }
+        // The cheapest readings are preferred, and the user only has to
+        // choose between equally cheap ones that would do different things
+        readings.sort((a, b) => a.cost - b.cost);
+        var cheapest : Reading[] = [];
+        for (var reading of readings) {
+            if (reading.cost == readings[0].cost && cheapest.every((other) =>
+                    actions(other.plan).join() != actions(reading.plan).join())) {
+                cheapest.push(reading);
+            }
+        }
+        if (cheapest.length > 1) {
+            world.printSystemOutput(Messages.text("ambiguous", cheapest.length));
+            var parts = distinguishingParts(cheapest.map((reading) => reading.parse));
+            for (var i = 0; i < cheapest.length; i++) {
+                world.printSystemOutput(" " + (i + 1) + ": " + parts[i]);
+            }
+            world.printSystemOutput(Messages.text("chooseReading"));
+            Dialogue.restoreContext(dialogue, cheapest[0].dialogue);
+            dialogue.ambiguousParses = cheapest.map((reading) => reading.parse);
+            return;
+        }
+        // The dialogue of the chosen reading makes its objects the last mentioned ones
+        var chosen = readings[0];
+        Dialogue.restoreContext(dialogue, chosen.dialogue);
+        if (readings.some((reading) => actions(reading.plan).join() != actions(chosen.plan).join())) {
+            world.printSystemOutput(Messages.text("understoodAs",
+                Parser.intelligentStringify(chosen.parse)));
+        }
+        world.printDebugInfo("Final plan: " + chosen.plan.join(", "));
+        return chosen.plan;
+    }
+
+
+    /** A parse that could be interpreted and planned. */
+    interface Reading {
+        parse : Parser.ParseResult;
+        plan : string[];
+        /** The number of robot actions in the plan. */
+        cost : number;
+        /** The goals of the commands, which tell different readings apart. */
+        goal : string;
+        /** The dialogue after the parse was interpreted. */
+        dialogue : Dialogue.DialogueContext;
+    }
+
+    /** A parse that could not be interpreted or planned. */
+    interface Failure {
+        error : Error;
+        /** The dialogue after the parse was interpreted, e.g. with the
+         * question that the system asked. */
+        dialogue : Dialogue.DialogueContext;
+    }
+
+    /*
+     * Plans every command of a parse. A sequence of commands is planned one
+     * command at a time, each from the world state that the previous plan
+     * leaves behind. When a command asks the user which object is meant,
+     * the sequence goes on from there with the answer.
+     * @throws An Errors.ShrdliteError if any command cannot be interpreted or planned.
+     */
+    function planReading(world : World, parse : Parser.ParseResult,
+        dialogue : Dialogue.DialogueContext) : Reading {
+        var commands : Parser.Command[] = parse.parse.command == "sequence" ?
+            parse.parse.commands : [parse.parse];
+        var state : WorldState = world.currentState;
+        var reading : Reading = {parse: parse, plan: [], cost: 0, goal: "", dialogue: dialogue};
+        var sequence = dialogue.sequence;
+        dialogue.sequence = undefined;
+        if (sequence != undefined && parse.parse.command == "specification") {
+            commands = commands.concat(sequence.commands);
+            state = sequence.state;
+            reading.plan = sequence.plan.slice();
+        }
+        var moving = false;
+        for (var n = 0; n < commands.length; n++) {
+            try {
+                var result = interpretAndPlan(world, {input: parse.input, parse: commands[n]}, state, dialogue);
+            } catch(err) {
+                if (err.code == "ambiguous-reference" && commands.length > 1) {
+                    dialogue.sequence = {plan: reading.plan, state: state, commands: commands.slice(n + 1)};
+                }
+                throw err;
+            }
+            reading.goal += "; " + Interpreter.stringify(result);
+            if (result.answer == undefined && actions(result.plan).length > 0) {
+                // The robot says what it will do before it does it
+                reading.plan.push(Interpreter.paraphrase(remainingGoal(result.interpretation, state), state));
+            }
+            if (result.answer == undefined) {
+                moving = true;
+                state = Planner.simulatePlan(result.plan, state);
+            }
+            reading.plan = reading.plan.concat(result.plan);
+        }
+        reading.cost = actions(reading.plan).length;
+        if (moving) {
+            reading.plan.push(Messages.text("whatElse"));
+        }
+        return reading;
+    }
+
+    /*
+     * Leaves out the literals of a goal that already hold, e.g. that the
+     * black ball is not in the yellow box when it never was, so that the
+     * robot only says what it has to do.
+     */
+    function remainingGoal(formula : Interpreter.DNFFormula, state : WorldState) : Interpreter.DNFFormula {
+        var remaining = formula.map((conjunction) => conjunction.filter((lit) =>
+            Planner.satisfiedConjunction([[lit]], state) == null))
+            .filter((conjunction) => conjunction.length > 0);
+        return remaining.length > 0 ? remaining : formula;
+    }
+
+    /*
+     * Returns the robot actions of a plan, without the system utterances.
+     */
+    function actions(plan : string[]) : string[] {
+        return plan.filter((step) => step.length == 1);
+    }
 
+    /*
+     * Describes each reading by the parts where the readings differ, and
+     * leaves out the parts that they all share.
+     */
+    function distinguishingParts(parses : Parser.ParseResult[]) : string[] {
+        var parts = parses.map(Parser.readingParts);
+        if (parts.some((reading) => reading.length != parts[0].length)) {
+            return parses.map(Parser.intelligentStringify);
+        }
+        return parts.map((reading) => reading.map((part, n) =>
+            parts.every((other) => other[n] == part) ? "..." : part).join(", "));
+    }
+
+
+    /*
+     * Interprets and plans a single command in the given world state.
+     * Questions are answered directly, and their plan is the answer.
+     * @throws An Errors.ShrdliteError if the command cannot be interpreted or planned.
+     */
+    function interpretAndPlan(world : World, parse : Parser.ParseResult, state : WorldState,
+        dialogue : Dialogue.DialogueContext) : Planner.PlannerResult {
         // Interpretation
-        try {
-            var interpretations : Interpreter.InterpretationResult[] = Interpreter.interpret(parses, world.currentState);
-            world.printDebugInfo("Found " + interpretations.length + " interpretations");
-            interpretations.forEach((result, n) => {
-                world.printDebugInfo("  (" + n + ") " + Interpreter.stringify(result));
-            });
-        }
-        catch(err) {
-            world.printSystemOutput(err);
-            return;
+        var interpretations : Interpreter.InterpretationResult[] = Interpreter.interpret([parse], state, dialogue);
+        world.printDebugInfo("Found " + interpretations.length + " interpretations");
+        interpretations.forEach((result, n) => {
+            world.printDebugInfo("  (" + n + ") " + Interpreter.stringify(result));
+        });
+
+        // Questions are answered directly, without moving the robot
+        var question = <Planner.PlannerResult>interpretations[0];
+        if (question.parse.command == "ask") {
+            question.answer = answerQuestion(question, state);
+        }
+        if (question.answer != undefined) {
+            question.plan = [question.answer];
+            return question;
         }
 
         // Planning
-        try {
-            var plans : Planner.PlannerResult[] = Planner.plan(interpretations, world.currentState);
-            world.printDebugInfo("Found " + plans.length + " plans");
-            plans.forEach((result, n) => {
-                world.printDebugInfo("  (" + n + ") " + Planner.stringify(result));
-            });
-        }
-        catch(err) {
-            world.printSystemOutput(err);
-            return;
-        }
+        var plans : Planner.PlannerResult[] = Planner.plan(interpretations, state);
+        world.printDebugInfo("Found " + plans.length + " plans");
+        plans.forEach((result, n) => {
+            world.printDebugInfo("  (" + n + ") " + Planner.stringify(result));
+        });
+        return plans[0];
+    }
+
 
-        var finalPlan : string[] = plans[0].plan;
-        world.printDebugInfo("Final plan: " + finalPlan.join(", "));
-        return finalPlan;
+    /**
+     * Answers a yes/no question by checking its formula in the given world
+     * state instead of planning for it.
+     * @param result The interpretation of the question.
+     * @param state The current world state.
+     * @returns "Yes" or "No", followed by a short reason.
+     */
+    export function answerQuestion(result : Interpreter.InterpretationResult, state : WorldState) : string {
+        var formula = result.interpretation;
+        var conjunction = Planner.satisfiedConjunction(formula, state);
+        if (conjunction != null) {
+            return Messages.text("yes", conjunction.map((lit) =>
+                Interpreter.describeLiteral(lit, state)).join(Messages.text("and")));
+        }
+        if (formula.length == 0) {
+            return Messages.text("noImpossible");
+        }
+        // Explain where the objects of the failing literals actually are, in
+        // the conjunction that is closest to holding
+        var failing = (conjunction : Interpreter.Literal[]) => conjunction.filter((lit) =>
+            Planner.satisfiedConjunction([[lit]], state) == null);
+        var closest = formula.map(failing).reduce((best, lits) => lits.length < best.length ? lits : best);
+        var labels : string[] = [];
+        for (var lit of closest) {
+            if (labels.indexOf(lit.args[0]) == -1) {
+                labels.push(lit.args[0]);
+            }
+        }
+        return Messages.text("no", labels.map((label) =>
+            Interpreter.describePosition(label, state)).join(" "));
     }
 
 
@@ -130,7 +331,8 @@ module Shrdlite {
     export function splitStringIntoPlan(planstring : string) : string[] {
         var plan : string[] = planstring.trim().split(/\s+/);
         var actions : {[act:string] : string}
-            = {p:"Picking", d:"Dropping", l:"Going left", r:"Going right"};
+            = {p:Messages.text("picking"), d:Messages.text("dropping"),
+               l:Messages.text("goingLeft"), r:Messages.text("goingRight")};
         for (var i = plan.length-1; i >= 0; i--) {
             if (!actions[plan[i]]) {
                 return;
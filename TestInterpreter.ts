@@ -4,28 +4,135 @@
 ///<reference path="InterpreterTestCases.ts"/>
 
 
+// Runs an utterance through the whole system, and returns what it says.
+function systemReplies(world : World, utterance : string,
+                       dialogue : Dialogue.DialogueContext) : string[] {
+    var replies : string[] = [];
+    world.printSystemOutput = (output : string) => { replies.push(output); };
+    world.printDebugInfo = (info : string) => {};
+    var plan = Shrdlite.parseUtteranceIntoPlan(world, utterance, dialogue) || [];
+    return replies.concat(plan.filter((step) => step.length > 1));
+}
+
+// Checks what the whole system replies to an utterance.
+function testReplies(testcase : TestCase, world : World,
+                     dialogue : Dialogue.DialogueContext) : boolean {
+    for (var before of testcase.before || []) {
+        systemReplies(world, before, dialogue);
+    }
+    console.log('Testing replies to: "' + testcase.utterance + '", in world "' + testcase.world + '"');
+    var replies = systemReplies(world, testcase.utterance, dialogue);
+    replies.forEach((reply) => console.log("    " + reply));
+    if (replies.join("\n") == testcase.reply.join("\n")) {
+        console.log("Everything is correct!");
+        return true;
+    }
+    console.log("Expected replies:");
+    testcase.reply.forEach((reply) => console.log("    " + reply));
+    return false;
+}
+
+// Reads a goal in the notation of the interpretations.
+function parseGoal(goal : string) : Interpreter.DNFFormula {
+    return goal.split(" | ").map((conjunction) => conjunction.split(" & ").map((literal) => {
+        var match = /^(-?)(\w+)\((.*)\)$/.exec(literal);
+        return {polarity: match[1] == "", relation: match[2], args: match[3].split(",")};
+    }));
+}
+
+// Checks which conjunctions of a goal the planner keeps, and what it says
+// when it keeps none of them.
+function testGoal(testcase : TestCase, world : World) : boolean {
+    console.log('Testing goal: "' + testcase.goal + '", in world "' + testcase.world + '"');
+    try {
+        var consistent = Planner.consistentGoal(parseGoal(testcase.goal), world.currentState)
+            .map((literals) => literals.map(Interpreter.stringifyLiteral).sort().join(" & ")).sort();
+    } catch(err) {
+        consistent = [];
+        var error : Errors.ShrdliteError = err;
+    }
+    var expected = (testcase.interpretations[0] || []).sort();
+    var code = error == undefined ? "none" : error.code;
+    console.log("Consistent: " + (consistent.join(" | ") || "nothing"));
+    if (error != undefined) {
+        console.log("Error: " + code + ' "' + error.message + '"');
+    }
+    if (consistent.join(" | ") != expected.join(" | ")) {
+        console.log("Expected: " + (expected.join(" | ") || "nothing"));
+        return false;
+    }
+    if (code != (testcase.error || "none") ||
+        (testcase.message != undefined && error.message != testcase.message)) {
+        console.log("Expected error: " + testcase.error +
+            (testcase.message == undefined ? "" : ' "' + testcase.message + '"'));
+        return false;
+    }
+    console.log("Everything is correct!");
+    return true;
+}
+
 function testInterpreter(testcase : TestCase) : boolean {
     var world : World = new TextWorld(ExampleWorlds[testcase.world]);
     var utterance : string = testcase.utterance;
+    var dialogue = Dialogue.newContext();
+    Messages.setLanguage(testcase.language || "en");
+    if (testcase.reply != undefined) {
+        return testReplies(testcase, world, dialogue);
+    }
+    if (testcase.goal != undefined) {
+        return testGoal(testcase, world);
+    }
+    for (var before of testcase.before || []) {
+        try {
+            Interpreter.interpret(Parser.parse(before, world.currentState), world.currentState, dialogue);
+        } catch(err) {
+            // A question from the system is the usual reply
+        }
+    }
 
     console.log('Testing utterance: "' + utterance + '", in world "' + testcase.world + '"');
     try {
-        var parses : Parser.ParseResult[] = Parser.parse(utterance);
+        var parses : Parser.ParseResult[] = Parser.parse(utterance, world.currentState);
         console.log("Found " + parses.length + " parses");
     }
     catch(err) {
+        if (testcase.error == "parse") {
+            console.log("Parsing error, as expected: " + err.message);
+            return true;
+        }
         console.log("ERROR: Parsing error!", err);
         return false;
     }
 
     var correctints : string[] = testcase.interpretations.map((intp) => intp.sort().join(" | ")).sort();
     try {
-        var interpretations : string[] = Interpreter.interpret(parses, world.currentState).map((intp) => {
+        var interpretations : string[] = Interpreter.interpret(parses, world.currentState, dialogue).map((intp) => {
             return intp.interpretation.map((literals) => literals.map(Interpreter.stringifyLiteral).sort().join(" & ")).sort().join(" | ");
         }).sort();
     }
     catch(err) {
         interpretations = [];
+        var error : Errors.ShrdliteError = err;
+    }
+
+    if (testcase.error != undefined) {
+        var code = error == undefined ? "none" : error.code;
+        console.log("Error: " + code + (error == undefined ? "" : ' "' + error.message + '"'));
+        if (code != testcase.error ||
+            (testcase.message != undefined && error.message != testcase.message)) {
+            console.log("Expected error: " + testcase.error +
+                (testcase.message == undefined ? "" : ' "' + testcase.message + '"'));
+            return false;
+        }
+        if (error != undefined && testcase.labels != undefined &&
+            error.labels.slice().sort().join(",") != testcase.labels.slice().sort().join(",")) {
+            console.log("Labels: " + error.labels.join(",") + ", expected: " + testcase.labels.join(","));
+            return false;
+        }
+        if (error != undefined && testcase.relation != undefined && error.relation != testcase.relation) {
+            console.log("Relation: " + error.relation + ", expected: " + testcase.relation);
+            return false;
+        }
     }
 
     console.log("Correct interpretations:");
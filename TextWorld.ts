@@ -1,4 +1,5 @@
 ///<reference path="World.ts"/>
+///<reference path="Physics.ts"/>
 ///<reference path="lib/node.d.ts"/>
 
 class TextWorld implements World {
@@ -138,6 +139,9 @@ class TextWorld implements World {
         if (!this.currentState.holding) {
             throw "Not holding anything!";
         }
+        if (!Physics.canDrop(this.currentState)) {
+            throw "Cannot drop that here!";
+        }
         var stack = this.currentState.arm;
         this.currentState.stacks[stack].push(this.currentState.holding);
         this.currentState.holding = null;
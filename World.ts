@@ -1,5 +1,6 @@
 ///<reference path="lib/collections.ts"/>
 ///<reference path="Interpreter.ts"/>
+///<reference path="Physics.ts"/>
 
 // Interface definitions for worlds
 
@@ -16,6 +17,16 @@ interface ObjectDefinition {
     color: string;
 }
 
+/**
+* Extra words for the attributes of objects, each mapped to the attribute
+* it stands for, e.g. {color: {crimson: "red"}}.
+*/
+interface Synonyms {
+    form?: {[word:string] : string};
+    size?: {[word:string] : string};
+    color?: {[word:string] : string};
+}
+
 /**
 * The state of the world.
 */
@@ -33,7 +44,11 @@ interface WorldState {
     /** List of predefined example sentences/utterances that the user can choose from in the UI. */
     examples: string[];
 
-    ambigousParses? : Parser.ParseResult[];
+    /** The physical laws of this world, if they differ from `Physics.defaultRules`. */
+    physics? : Physics.Rule[];
+
+    /** Words for the objects of this world, in addition to their own colors, sizes and forms. */
+    synonyms? : Synonyms;
 }
 
 type Stack = string[];
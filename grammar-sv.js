@@ -0,0 +1,818 @@
+// Generated automatically by nearley
+// http://github.com/Hardmath123/nearley
+(function () {
+function id(x) {return x[0]; }
+
+
+// Create a Javascript object by instantiating children
+// Example:
+// updateObject({a:2, b:{c:1, d:0}}, ['x', 'y', 'z'])
+// ==> {a:'z', b:{c:'y', d:'x'}}
+
+function updateObject(obj, children) {
+    if (typeof obj == "object") {
+        var result = obj.constructor();
+        for (var key in obj) {
+            result[key] = updateObject(obj[key], children);
+        }
+        return result;
+    } else if (typeof obj == "number") {
+        return children[obj];
+    } else {
+        return obj;
+    }
+}
+
+// Wrapper function for updating Nearley parse results
+
+function R(obj) {
+    return function(d){return updateObject(obj, d)}
+}
+
+// Wrapper function for building lists of parse results
+// Example: L(0, 2) gives the list [d[0]] followed by the elements of the list d[2]
+
+function L(first, rest) {
+    return function(d){return [d[first]].concat(rest == undefined ? [] : d[rest])}
+}
+
+// Wrapper function for parse results that do not depend on the children
+
+function C(value) {
+    return function(d){return value}
+}
+
+// Postprocess for counted entities, where the count comes with the quantifier
+
+function counted(d) {
+    return {quantifier:d[0].quantifier, count:d[0].count, object:d[1]};
+}
+
+// Postprocess for superlatives, which are added to a copy of the object
+
+function superlative(d) {
+    var object = {superlative:d[1]};
+    for (var key in d[2]) object[key] = d[2][key];
+    return {quantifier:"the", object:object};
+}
+
+// Postprocess for object descriptions, giving one object for every
+// combination of the alternative sizes and colors
+
+function describe(d) {
+    var objects = [];
+    (d[0] || [null]).forEach(function(size) {
+        (d[1] || [null]).forEach(function(color) {
+            objects.push({size:size, color:color, form:d[2]});
+        });
+    });
+    return objects;
+}
+
+// Postprocess for a list of alternative objects, which are only wrapped if
+// there are several of them
+
+function either(d) {
+    return d[0].length == 1 ? d[0][0] : {alternatives:d[0]};
+}
+
+// Postprocess for entities where the quantifier can be left out, as in
+// "bollen" (the ball) or "bollarna" (the balls)
+
+function quantified(quantifier) {
+    return function(d) {return {quantifier:d[0] || quantifier, object:d[1]}};
+}
+
+var grammar = {
+    ParserRules: [
+    {"name": "main$ebnf$1", "symbols": ["will_you"], "postprocess": id},
+    {"name": "main$ebnf$1", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "main$ebnf$2", "symbols": ["please"], "postprocess": id},
+    {"name": "main$ebnf$2", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "main$ebnf$3", "symbols": ["please"], "postprocess": id},
+    {"name": "main$ebnf$3", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "main", "symbols": ["main$ebnf$1", "main$ebnf$2", "command", "main$ebnf$3"], "postprocess": R(2)},
+    {"name": "main$ebnf$4", "symbols": ["will_you"], "postprocess": id},
+    {"name": "main$ebnf$4", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "main$ebnf$5", "symbols": ["please"], "postprocess": id},
+    {"name": "main$ebnf$5", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "main$ebnf$6", "symbols": ["first"], "postprocess": id},
+    {"name": "main$ebnf$6", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "main$ebnf$7", "symbols": ["please"], "postprocess": id},
+    {"name": "main$ebnf$7", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "main", "symbols": ["main$ebnf$4", "main$ebnf$5", "main$ebnf$6", "seqCommand", "then", "commands", "main$ebnf$7"], "postprocess": function(d) {return {command:"sequence", commands:L(3, 5)(d)}}},
+    {"name": "commands", "symbols": ["seqCommand"], "postprocess": L(0)},
+    {"name": "commands", "symbols": ["seqCommand", "then", "commands"], "postprocess": L(0, 2)},
+    {"name": "command", "symbols": ["seqCommand"], "postprocess": R(0)},
+    {"name": "command", "symbols": ["entity"], "postprocess": R({command:"specification", entity:0})},
+    {"name": "seqCommand", "symbols": ["take", "entity"], "postprocess": R({command:"take", entity:1})},
+    {"name": "seqCommand", "symbols": ["move", "entity", "location"], "postprocess": R({command:"move", entity:1, location:2})},
+    {"name": "seqCommand", "symbols": ["remove", "entity", "from", "entity"], "postprocess": R({command:"remove", entity:1, location:{relation:2, entity:3}})},
+    {"name": "seqCommand", "symbols": ["clear", "entity"], "postprocess": R({command:"clear", location:{relation:"ontop", entity:1}})},
+    {"name": "seqCommand", "symbols": ["make_sure", "nothing", "location"], "postprocess": R({command:"clear", location:2})},
+    {"name": "seqCommand$subexpression$1$string$1", "symbols": [{"literal":"o"}, {"literal":"c"}, {"literal":"h"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "seqCommand$subexpression$1", "symbols": ["seqCommand$subexpression$1$string$1"]},
+    {"name": "seqCommand$subexpression$1$string$2", "symbols": [{"literal":"m"}, {"literal":"o"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "seqCommand$subexpression$1", "symbols": ["seqCommand$subexpression$1$string$2"]},
+    {"name": "seqCommand", "symbols": ["swap", "entity", "seqCommand$subexpression$1", "entity"], "postprocess": R({command:"swap", entity:1, entity2:3})},
+    {"name": "seqCommand", "symbols": ["stack", "entity"], "postprocess": R({command:"stack", entity:1})},
+    {"name": "seqCommand", "symbols": ["unstack", "entity"], "postprocess": R({command:"unstack", entity:1})},
+    {"name": "command", "symbols": ["where_is", "entity"], "postprocess": R({command:"where", entity:1})},
+    {"name": "command$ebnf$1", "symbols": ["are_there"], "postprocess": id},
+    {"name": "command$ebnf$1", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "command", "symbols": ["how_many", "objectPL", "command$ebnf$1"], "postprocess": R({command:"count", entity:{quantifier:"all", object:1}})},
+    {"name": "command", "symbols": ["how_many", "objectPL", "are", "location"], "postprocess": R({command:"count", entity:{quantifier:"all", object:{object:1, location:3}}})},
+    {"name": "command", "symbols": ["how_many", "objectPL", "are", "negLocation"], "postprocess": R({command:"count", entity:{quantifier:"all", object:{object:1, location:3}}})},
+    {"name": "command", "symbols": ["how_many", "objectPL", "are", "comparison"], "postprocess": R({command:"count", entity:{quantifier:"all", object:{object:1, comparison:3}}})},
+    {"name": "command", "symbols": ["is", "entity", "location"], "postprocess": R({command:"ask", entity:1, location:2})},
+    {"name": "location", "symbols": ["relation", "entity"], "postprocess": R({relation:0, entity:1})},
+    {"name": "location$string$1", "symbols": [{"literal":"m"}, {"literal":"e"}, {"literal":"l"}, {"literal":"l"}, {"literal":"a"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "location$string$2", "symbols": [{"literal":"o"}, {"literal":"c"}, {"literal":"h"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "location", "symbols": ["location$string$1", "entity", "location$string$2", "entity"], "postprocess": R({relation:"between", entity:1, entity2:3})},
+    {"name": "entity$ebnf$1", "symbols": ["quantifierSG"], "postprocess": id},
+    {"name": "entity$ebnf$1", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "entity", "symbols": ["entity$ebnf$1", "objectSG"], "postprocess": quantified("the")},
+    {"name": "entity$ebnf$2", "symbols": ["quantifierPL"], "postprocess": id},
+    {"name": "entity$ebnf$2", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "entity", "symbols": ["entity$ebnf$2", "objectPL"], "postprocess": quantified("all")},
+    {"name": "entity", "symbols": ["countSG", "objectSG"], "postprocess": counted},
+    {"name": "entity", "symbols": ["countPL", "objectPL"], "postprocess": counted},
+    {"name": "entity$ebnf$3", "symbols": ["the"], "postprocess": id},
+    {"name": "entity$ebnf$3", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "entity", "symbols": ["entity$ebnf$3", "superlative", "objectSG"], "postprocess": superlative},
+    {"name": "entity", "symbols": ["column"], "postprocess": function(d) {return {quantifier:"the", object:{form:"column", column:d[0]}}}},
+    {"name": "entity$subexpression$1$string$1", "symbols": [{"literal":"a"}, {"literal":"l"}, {"literal":"l"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "entity$subexpression$1", "symbols": ["entity$subexpression$1$string$1"]},
+    {"name": "entity$subexpression$1$string$2", "symbols": [{"literal":"a"}, {"literal":"l"}, {"literal":"l"}, {"literal":"t"}, {"literal":"i"}, {"literal":"n"}, {"literal":"g"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "entity$subexpression$1", "symbols": ["entity$subexpression$1$string$2"]},
+    {"name": "entity", "symbols": ["entity$subexpression$1"], "postprocess": C({quantifier:"all", object:{size:null, color:null, form:"anyform"}})},
+    {"name": "entity$subexpression$2$string$1", "symbols": [{"literal":"n"}, {"literal":"å"}, {"literal":"g"}, {"literal":"o"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "entity$subexpression$2", "symbols": ["entity$subexpression$2$string$1"]},
+    {"name": "entity$subexpression$2$string$2", "symbols": [{"literal":"n"}, {"literal":"å"}, {"literal":"g"}, {"literal":"o"}, {"literal":"n"}, {"literal":"t"}, {"literal":"i"}, {"literal":"n"}, {"literal":"g"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "entity$subexpression$2", "symbols": ["entity$subexpression$2$string$2"]},
+    {"name": "entity", "symbols": ["entity$subexpression$2"], "postprocess": C({quantifier:"any", object:{size:null, color:null, form:"anyform"}})},
+    {"name": "entity", "symbols": ["pronounSG"], "postprocess": C({quantifier:"the", object:{pronoun:"it"}})},
+    {"name": "entity", "symbols": ["pronounPL"], "postprocess": C({quantifier:"all", object:{pronoun:"them"}})},
+    {"name": "objectSG$ebnf$1", "symbols": ["that_is"], "postprocess": id},
+    {"name": "objectSG$ebnf$1", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "objectSG", "symbols": ["objectSG", "objectSG$ebnf$1", "location"], "postprocess": R({object:0, location:2})},
+    {"name": "objectPL$ebnf$1", "symbols": ["that_are"], "postprocess": id},
+    {"name": "objectPL$ebnf$1", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "objectPL", "symbols": ["objectPL", "objectPL$ebnf$1", "location"], "postprocess": R({object:0, location:2})},
+    {"name": "objectSG$ebnf$2", "symbols": ["that_is"], "postprocess": id},
+    {"name": "objectSG$ebnf$2", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "objectSG", "symbols": ["objectSG", "objectSG$ebnf$2", "negLocation"], "postprocess": R({object:0, location:2})},
+    {"name": "objectPL$ebnf$2", "symbols": ["that_are"], "postprocess": id},
+    {"name": "objectPL$ebnf$2", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "objectPL", "symbols": ["objectPL", "objectPL$ebnf$2", "negLocation"], "postprocess": R({object:0, location:2})},
+    {"name": "objectSG$string$1", "symbols": [{"literal":"s"}, {"literal":"o"}, {"literal":"m"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "objectSG$string$2", "symbols": [{"literal":"i"}, {"literal":"n"}, {"literal":"t"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "objectSG", "symbols": ["objectSG", "objectSG$string$1", "objectSG$string$2", "be", "relation", "entity"], "postprocess": R({object:0, location:{relation:4, entity:5, polarity:false}})},
+    {"name": "objectPL$string$1", "symbols": [{"literal":"s"}, {"literal":"o"}, {"literal":"m"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "objectPL$string$2", "symbols": [{"literal":"i"}, {"literal":"n"}, {"literal":"t"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "objectPL", "symbols": ["objectPL", "objectPL$string$1", "objectPL$string$2", "be", "relation", "entity"], "postprocess": R({object:0, location:{relation:4, entity:5, polarity:false}})},
+    {"name": "objectSG$string$3", "symbols": [{"literal":"s"}, {"literal":"o"}, {"literal":"m"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "objectSG$string$4", "symbols": [{"literal":"i"}, {"literal":"n"}, {"literal":"t"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "objectSG$string$5", "symbols": [{"literal":"m"}, {"literal":"e"}, {"literal":"l"}, {"literal":"l"}, {"literal":"a"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "objectSG$string$6", "symbols": [{"literal":"o"}, {"literal":"c"}, {"literal":"h"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "objectSG", "symbols": ["objectSG", "objectSG$string$3", "objectSG$string$4", "be", "objectSG$string$5", "entity", "objectSG$string$6", "entity"], "postprocess": R({object:0, location:{relation:"between", entity:5, entity2:7, polarity:false}})},
+    {"name": "objectPL$string$3", "symbols": [{"literal":"s"}, {"literal":"o"}, {"literal":"m"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "objectPL$string$4", "symbols": [{"literal":"i"}, {"literal":"n"}, {"literal":"t"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "objectPL$string$5", "symbols": [{"literal":"m"}, {"literal":"e"}, {"literal":"l"}, {"literal":"l"}, {"literal":"a"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "objectPL$string$6", "symbols": [{"literal":"o"}, {"literal":"c"}, {"literal":"h"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "objectPL", "symbols": ["objectPL", "objectPL$string$3", "objectPL$string$4", "be", "objectPL$string$5", "entity", "objectPL$string$6", "entity"], "postprocess": R({object:0, location:{relation:"between", entity:5, entity2:7, polarity:false}})},
+    {"name": "objectSG$ebnf$3", "symbols": ["that_is"], "postprocess": id},
+    {"name": "objectSG$ebnf$3", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "objectSG", "symbols": ["objectSG", "objectSG$ebnf$3", "comparison"], "postprocess": R({object:0, comparison:2})},
+    {"name": "objectPL$ebnf$3", "symbols": ["that_are"], "postprocess": id},
+    {"name": "objectPL$ebnf$3", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "objectPL", "symbols": ["objectPL", "objectPL$ebnf$3", "comparison"], "postprocess": R({object:0, comparison:2})},
+    {"name": "comparison$string$1", "symbols": [{"literal":"ä"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "comparison", "symbols": ["comparative", "comparison$string$1", "entity"], "postprocess": R({relation:0, entity:2})},
+    {"name": "comparison$subexpression$1$string$1", "symbols": [{"literal":"a"}, {"literal":"v"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "comparison$subexpression$1", "symbols": ["comparison$subexpression$1$string$1"]},
+    {"name": "comparison$subexpression$1$string$2", "symbols": [{"literal":"m"}, {"literal":"e"}, {"literal":"d"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "comparison$subexpression$1", "symbols": ["comparison$subexpression$1$string$2"]},
+    {"name": "comparison$string$2", "symbols": [{"literal":"s"}, {"literal":"a"}, {"literal":"m"}, {"literal":"m"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "comparison", "symbols": ["comparison$subexpression$1", "comparison$string$2", "attribute"], "postprocess": R({relation:2})},
+    {"name": "comparison$subexpression$2$string$1", "symbols": [{"literal":"a"}, {"literal":"v"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "comparison$subexpression$2", "symbols": ["comparison$subexpression$2$string$1"]},
+    {"name": "comparison$subexpression$2$string$2", "symbols": [{"literal":"m"}, {"literal":"e"}, {"literal":"d"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "comparison$subexpression$2", "symbols": ["comparison$subexpression$2$string$2"]},
+    {"name": "comparison$string$3", "symbols": [{"literal":"s"}, {"literal":"a"}, {"literal":"m"}, {"literal":"m"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "comparison$string$4", "symbols": [{"literal":"s"}, {"literal":"o"}, {"literal":"m"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "comparison", "symbols": ["comparison$subexpression$2", "comparison$string$3", "attribute", "comparison$string$4", "entity"], "postprocess": R({relation:2, entity:4})},
+    {"name": "negLocation$string$1", "symbols": [{"literal":"i"}, {"literal":"n"}, {"literal":"t"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "negLocation", "symbols": ["negLocation$string$1", "relation", "entity"], "postprocess": R({relation:1, entity:2, polarity:false})},
+    {"name": "negLocation$string$2", "symbols": [{"literal":"i"}, {"literal":"n"}, {"literal":"t"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "negLocation$string$3", "symbols": [{"literal":"m"}, {"literal":"e"}, {"literal":"l"}, {"literal":"l"}, {"literal":"a"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "negLocation$string$4", "symbols": [{"literal":"o"}, {"literal":"c"}, {"literal":"h"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "negLocation", "symbols": ["negLocation$string$2", "negLocation$string$3", "entity", "negLocation$string$4", "entity"], "postprocess": R({relation:"between", entity:2, entity2:4, polarity:false})},
+    {"name": "objectSG", "symbols": ["basicsSG"], "postprocess": either},
+    {"name": "objectPL", "symbols": ["basicsPL"], "postprocess": either},
+    {"name": "basicsSG", "symbols": ["basicSG"], "postprocess": R(0)},
+    {"name": "basicsSG$string$1", "symbols": [{"literal":"e"}, {"literal":"l"}, {"literal":"l"}, {"literal":"e"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "basicsSG$ebnf$1", "symbols": ["quantifierSG"], "postprocess": id},
+    {"name": "basicsSG$ebnf$1", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "basicsSG", "symbols": ["basicSG", "basicsSG$string$1", "basicsSG$ebnf$1", "basicsSG"], "postprocess": function(d) {return d[0].concat(d[3])}},
+    {"name": "basicsPL", "symbols": ["basicPL"], "postprocess": R(0)},
+    {"name": "basicsPL$string$1", "symbols": [{"literal":"e"}, {"literal":"l"}, {"literal":"l"}, {"literal":"e"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "basicsPL$ebnf$1", "symbols": ["quantifierPL"], "postprocess": id},
+    {"name": "basicsPL$ebnf$1", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "basicsPL", "symbols": ["basicPL", "basicsPL$string$1", "basicsPL$ebnf$1", "basicsPL"], "postprocess": function(d) {return d[0].concat(d[3])}},
+    {"name": "basicSG$ebnf$1", "symbols": ["sizes"], "postprocess": id},
+    {"name": "basicSG$ebnf$1", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "basicSG$ebnf$2", "symbols": ["colors"], "postprocess": id},
+    {"name": "basicSG$ebnf$2", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "basicSG", "symbols": ["basicSG$ebnf$1", "basicSG$ebnf$2", "formSG"], "postprocess": describe},
+    {"name": "basicPL$ebnf$1", "symbols": ["sizes"], "postprocess": id},
+    {"name": "basicPL$ebnf$1", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "basicPL$ebnf$2", "symbols": ["colors"], "postprocess": id},
+    {"name": "basicPL$ebnf$2", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "basicPL", "symbols": ["basicPL$ebnf$1", "basicPL$ebnf$2", "formPL"], "postprocess": describe},
+    {"name": "basicSG$ebnf$3", "symbols": ["sizes"], "postprocess": id},
+    {"name": "basicSG$ebnf$3", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "basicSG", "symbols": ["basicSG$ebnf$3", "colors"], "postprocess": function(d) {return describe([d[0], d[1], "anyform"])}},
+    {"name": "basicSG", "symbols": ["sizes"], "postprocess": function(d) {return describe([d[0], null, "anyform"])}},
+    {"name": "basicPL$ebnf$3", "symbols": ["sizes"], "postprocess": id},
+    {"name": "basicPL$ebnf$3", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "basicPL", "symbols": ["basicPL$ebnf$3", "colors"], "postprocess": function(d) {return describe([d[0], d[1], "anyform"])}},
+    {"name": "basicPL", "symbols": ["sizes"], "postprocess": function(d) {return describe([d[0], null, "anyform"])}},
+    {"name": "sizes", "symbols": ["size"], "postprocess": L(0)},
+    {"name": "sizes$string$1", "symbols": [{"literal":"e"}, {"literal":"l"}, {"literal":"l"}, {"literal":"e"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "sizes", "symbols": ["size", "sizes$string$1", "sizes"], "postprocess": L(0, 2)},
+    {"name": "colors", "symbols": ["color"], "postprocess": L(0)},
+    {"name": "colors$string$1", "symbols": [{"literal":"e"}, {"literal":"l"}, {"literal":"l"}, {"literal":"e"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "colors", "symbols": ["color", "colors$string$1", "colors"], "postprocess": L(0, 2)},
+    {"name": "objectSG$ebnf$4", "symbols": ["empty"], "postprocess": id},
+    {"name": "objectSG$ebnf$4", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "objectSG", "symbols": ["objectSG$ebnf$4", "columnSG"], "postprocess": function(d) {return {form:d[0] ? "emptyspot" : "column"}}},
+    {"name": "objectSG", "symbols": ["empty", "spotSG"], "postprocess": C({form:"emptyspot"})},
+    {"name": "objectPL$ebnf$4", "symbols": ["empty"], "postprocess": id},
+    {"name": "objectPL$ebnf$4", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "objectPL", "symbols": ["objectPL$ebnf$4", "columnPL"], "postprocess": function(d) {return {form:d[0] ? "emptyspot" : "column"}}},
+    {"name": "objectPL", "symbols": ["empty", "spotPL"], "postprocess": C({form:"emptyspot"})},
+    {"name": "column", "symbols": ["columnSG", "number"], "postprocess": function(d) {return d[1] - 1}},
+    {"name": "column$ebnf$1", "symbols": ["the"], "postprocess": id},
+    {"name": "column$ebnf$1", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "column", "symbols": ["column$ebnf$1", "ordinal", "columnSG"], "postprocess": function(d) {return d[1] - 1}},
+    {"name": "quantifierSG$subexpression$1$string$1", "symbols": [{"literal":"e"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "quantifierSG$subexpression$1", "symbols": ["quantifierSG$subexpression$1$string$1"]},
+    {"name": "quantifierSG$subexpression$1$string$2", "symbols": [{"literal":"e"}, {"literal":"t"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "quantifierSG$subexpression$1", "symbols": ["quantifierSG$subexpression$1$string$2"]},
+    {"name": "quantifierSG$subexpression$1$string$3", "symbols": [{"literal":"n"}, {"literal":"å"}, {"literal":"g"}, {"literal":"o"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "quantifierSG$subexpression$1", "symbols": ["quantifierSG$subexpression$1$string$3"]},
+    {"name": "quantifierSG$subexpression$1$string$4", "symbols": [{"literal":"n"}, {"literal":"å"}, {"literal":"g"}, {"literal":"o"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "quantifierSG$subexpression$1", "symbols": ["quantifierSG$subexpression$1$string$4"]},
+    {"name": "quantifierSG", "symbols": ["quantifierSG$subexpression$1"], "postprocess": R("any")},
+    {"name": "quantifierSG", "symbols": ["the"], "postprocess": R("the")},
+    {"name": "quantifierSG$subexpression$2$string$1", "symbols": [{"literal":"v"}, {"literal":"a"}, {"literal":"r"}, {"literal":"j"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "quantifierSG$subexpression$2", "symbols": ["quantifierSG$subexpression$2$string$1"]},
+    {"name": "quantifierSG$subexpression$2$string$2", "symbols": [{"literal":"v"}, {"literal":"a"}, {"literal":"r"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "quantifierSG$subexpression$2", "symbols": ["quantifierSG$subexpression$2$string$2"]},
+    {"name": "quantifierSG$subexpression$2$string$3", "symbols": [{"literal":"v"}, {"literal":"a"}, {"literal":"r"}, {"literal":"e"}, {"literal":"n"}, {"literal":"d"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "quantifierSG$subexpression$2", "symbols": ["quantifierSG$subexpression$2$string$3"]},
+    {"name": "quantifierSG", "symbols": ["quantifierSG$subexpression$2"], "postprocess": R("all")},
+    {"name": "quantifierPL$subexpression$1$string$1", "symbols": [{"literal":"a"}, {"literal":"l"}, {"literal":"l"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "quantifierPL$subexpression$1", "symbols": ["quantifierPL$subexpression$1$string$1"]},
+    {"name": "quantifierPL$subexpression$1$string$2", "symbols": [{"literal":"d"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "quantifierPL$subexpression$1", "symbols": ["quantifierPL$subexpression$1$string$2"]},
+    {"name": "quantifierPL", "symbols": ["quantifierPL$subexpression$1"], "postprocess": R("all")},
+    {"name": "countSG$string$1", "symbols": [{"literal":"m"}, {"literal":"i"}, {"literal":"n"}, {"literal":"s"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "countSG", "symbols": ["countSG$string$1", "one"], "postprocess": C({quantifier:"atleast", count:1})},
+    {"name": "countSG$subexpression$1$string$1", "symbols": [{"literal":"e"}, {"literal":"x"}, {"literal":"a"}, {"literal":"k"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "countSG$subexpression$1", "symbols": ["countSG$subexpression$1$string$1"]},
+    {"name": "countSG$subexpression$1$string$2", "symbols": [{"literal":"p"}, {"literal":"r"}, {"literal":"e"}, {"literal":"c"}, {"literal":"i"}, {"literal":"s"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "countSG$subexpression$1", "symbols": ["countSG$subexpression$1$string$2"]},
+    {"name": "countSG", "symbols": ["countSG$subexpression$1", "one"], "postprocess": C({quantifier:"exactly", count:1})},
+    {"name": "countSG$string$2", "symbols": [{"literal":"h"}, {"literal":"ö"}, {"literal":"g"}, {"literal":"s"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "countSG", "symbols": ["countSG$string$2", "one"], "postprocess": C({quantifier:"atmost", count:1})},
+    {"name": "countPL", "symbols": ["number"], "postprocess": R({quantifier:"atleast", count:0})},
+    {"name": "countPL$string$1", "symbols": [{"literal":"m"}, {"literal":"i"}, {"literal":"n"}, {"literal":"s"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "countPL", "symbols": ["countPL$string$1", "number"], "postprocess": R({quantifier:"atleast", count:1})},
+    {"name": "countPL$subexpression$1$string$1", "symbols": [{"literal":"h"}, {"literal":"ö"}, {"literal":"g"}, {"literal":"s"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "countPL$subexpression$1", "symbols": ["countPL$subexpression$1$string$1"]},
+    {"name": "countPL$subexpression$1$string$2", "symbols": [{"literal":"s"}, {"literal":"o"}, {"literal":"m"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "countPL$subexpression$1$string$3", "symbols": [{"literal":"m"}, {"literal":"e"}, {"literal":"s"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "countPL$subexpression$1", "symbols": ["countPL$subexpression$1$string$2", "countPL$subexpression$1$string$3"]},
+    {"name": "countPL", "symbols": ["countPL$subexpression$1", "number"], "postprocess": R({quantifier:"atmost", count:1})},
+    {"name": "countPL$subexpression$2$string$1", "symbols": [{"literal":"e"}, {"literal":"x"}, {"literal":"a"}, {"literal":"k"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "countPL$subexpression$2", "symbols": ["countPL$subexpression$2$string$1"]},
+    {"name": "countPL$subexpression$2$string$2", "symbols": [{"literal":"p"}, {"literal":"r"}, {"literal":"e"}, {"literal":"c"}, {"literal":"i"}, {"literal":"s"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "countPL$subexpression$2", "symbols": ["countPL$subexpression$2$string$2"]},
+    {"name": "countPL", "symbols": ["countPL$subexpression$2", "number"], "postprocess": R({quantifier:"exactly", count:1})},
+    {"name": "number", "symbols": [/[0-9]/], "postprocess": function(d) {return parseInt(d[0])}},
+    {"name": "number$string$1", "symbols": [{"literal":"t"}, {"literal":"v"}, {"literal":"å"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "number", "symbols": ["number$string$1"], "postprocess": C(2)},
+    {"name": "number$string$2", "symbols": [{"literal":"t"}, {"literal":"r"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "number", "symbols": ["number$string$2"], "postprocess": C(3)},
+    {"name": "number$string$3", "symbols": [{"literal":"f"}, {"literal":"y"}, {"literal":"r"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "number", "symbols": ["number$string$3"], "postprocess": C(4)},
+    {"name": "number$string$4", "symbols": [{"literal":"f"}, {"literal":"e"}, {"literal":"m"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "number", "symbols": ["number$string$4"], "postprocess": C(5)},
+    {"name": "number$string$5", "symbols": [{"literal":"s"}, {"literal":"e"}, {"literal":"x"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "number", "symbols": ["number$string$5"], "postprocess": C(6)},
+    {"name": "number$string$6", "symbols": [{"literal":"s"}, {"literal":"j"}, {"literal":"u"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "number", "symbols": ["number$string$6"], "postprocess": C(7)},
+    {"name": "number$string$7", "symbols": [{"literal":"å"}, {"literal":"t"}, {"literal":"t"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "number", "symbols": ["number$string$7"], "postprocess": C(8)},
+    {"name": "number$string$8", "symbols": [{"literal":"n"}, {"literal":"i"}, {"literal":"o"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "number", "symbols": ["number$string$8"], "postprocess": C(9)},
+    {"name": "number$string$9", "symbols": [{"literal":"t"}, {"literal":"i"}, {"literal":"o"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "number", "symbols": ["number$string$9"], "postprocess": C(10)},
+    {"name": "relation$subexpression$1$string$1", "symbols": [{"literal":"v"}, {"literal":"ä"}, {"literal":"n"}, {"literal":"s"}, {"literal":"t"}, {"literal":"e"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "relation$subexpression$1$string$2", "symbols": [{"literal":"o"}, {"literal":"m"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "relation$subexpression$1", "symbols": ["relation$subexpression$1$string$1", "relation$subexpression$1$string$2"]},
+    {"name": "relation$subexpression$1$string$3", "symbols": [{"literal":"t"}, {"literal":"i"}, {"literal":"l"}, {"literal":"l"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "relation$subexpression$1$string$4", "symbols": [{"literal":"v"}, {"literal":"ä"}, {"literal":"n"}, {"literal":"s"}, {"literal":"t"}, {"literal":"e"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "relation$subexpression$1$string$5", "symbols": [{"literal":"o"}, {"literal":"m"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "relation$subexpression$1", "symbols": ["relation$subexpression$1$string$3", "relation$subexpression$1$string$4", "relation$subexpression$1$string$5"]},
+    {"name": "relation", "symbols": ["relation$subexpression$1"], "postprocess": R("leftof")},
+    {"name": "relation$subexpression$2$string$1", "symbols": [{"literal":"h"}, {"literal":"ö"}, {"literal":"g"}, {"literal":"e"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "relation$subexpression$2$string$2", "symbols": [{"literal":"o"}, {"literal":"m"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "relation$subexpression$2", "symbols": ["relation$subexpression$2$string$1", "relation$subexpression$2$string$2"]},
+    {"name": "relation$subexpression$2$string$3", "symbols": [{"literal":"t"}, {"literal":"i"}, {"literal":"l"}, {"literal":"l"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "relation$subexpression$2$string$4", "symbols": [{"literal":"h"}, {"literal":"ö"}, {"literal":"g"}, {"literal":"e"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "relation$subexpression$2$string$5", "symbols": [{"literal":"o"}, {"literal":"m"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "relation$subexpression$2", "symbols": ["relation$subexpression$2$string$3", "relation$subexpression$2$string$4", "relation$subexpression$2$string$5"]},
+    {"name": "relation", "symbols": ["relation$subexpression$2"], "postprocess": R("rightof")},
+    {"name": "relation$subexpression$3", "symbols": [{"literal":"i"}]},
+    {"name": "relation$subexpression$3$string$1", "symbols": [{"literal":"i"}, {"literal":"n"}, {"literal":"u"}, {"literal":"t"}, {"literal":"i"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "relation$subexpression$3", "symbols": ["relation$subexpression$3$string$1"]},
+    {"name": "relation$subexpression$3$string$2", "symbols": [{"literal":"i"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "relation$subexpression$3", "symbols": ["relation$subexpression$3$string$2", {"literal":"i"}]},
+    {"name": "relation$subexpression$3$string$3", "symbols": [{"literal":"n"}, {"literal":"e"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "relation$subexpression$3", "symbols": ["relation$subexpression$3$string$3", {"literal":"i"}]},
+    {"name": "relation", "symbols": ["relation$subexpression$3"], "postprocess": R("inside")},
+    {"name": "relation$subexpression$4$string$1", "symbols": [{"literal":"p"}, {"literal":"å"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "relation$subexpression$4", "symbols": ["relation$subexpression$4$string$1"]},
+    {"name": "relation$subexpression$4$string$2", "symbols": [{"literal":"o"}, {"literal":"v"}, {"literal":"a"}, {"literal":"n"}, {"literal":"p"}, {"literal":"å"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "relation$subexpression$4", "symbols": ["relation$subexpression$4$string$2"]},
+    {"name": "relation$subexpression$4$string$3", "symbols": [{"literal":"u"}, {"literal":"p"}, {"literal":"p"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "relation$subexpression$4$string$4", "symbols": [{"literal":"p"}, {"literal":"å"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "relation$subexpression$4", "symbols": ["relation$subexpression$4$string$3", "relation$subexpression$4$string$4"]},
+    {"name": "relation$subexpression$4$string$5", "symbols": [{"literal":"u"}, {"literal":"p"}, {"literal":"p"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "relation$subexpression$4$string$6", "symbols": [{"literal":"p"}, {"literal":"å"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "relation$subexpression$4", "symbols": ["relation$subexpression$4$string$5", "relation$subexpression$4$string$6"]},
+    {"name": "relation", "symbols": ["relation$subexpression$4"], "postprocess": R("ontop")},
+    {"name": "relation$subexpression$5$string$1", "symbols": [{"literal":"u"}, {"literal":"n"}, {"literal":"d"}, {"literal":"e"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "relation$subexpression$5", "symbols": ["relation$subexpression$5$string$1"]},
+    {"name": "relation$subexpression$5$string$2", "symbols": [{"literal":"n"}, {"literal":"e"}, {"literal":"d"}, {"literal":"a"}, {"literal":"n"}, {"literal":"f"}, {"literal":"ö"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "relation$subexpression$5", "symbols": ["relation$subexpression$5$string$2"]},
+    {"name": "relation", "symbols": ["relation$subexpression$5"], "postprocess": R("under")},
+    {"name": "relation$subexpression$6$string$1", "symbols": [{"literal":"b"}, {"literal":"r"}, {"literal":"e"}, {"literal":"d"}, {"literal":"v"}, {"literal":"i"}, {"literal":"d"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "relation$subexpression$6", "symbols": ["relation$subexpression$6$string$1"]},
+    {"name": "relation$subexpression$6$string$2", "symbols": [{"literal":"i"}, {"literal":"n"}, {"literal":"t"}, {"literal":"i"}, {"literal":"l"}, {"literal":"l"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "relation$subexpression$6", "symbols": ["relation$subexpression$6$string$2"]},
+    {"name": "relation", "symbols": ["relation$subexpression$6"], "postprocess": R("beside")},
+    {"name": "relation$subexpression$7$string$1", "symbols": [{"literal":"o"}, {"literal":"v"}, {"literal":"a"}, {"literal":"n"}, {"literal":"f"}, {"literal":"ö"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "relation$subexpression$7", "symbols": ["relation$subexpression$7$string$1"]},
+    {"name": "relation$subexpression$7$string$2", "symbols": [{"literal":"ö"}, {"literal":"v"}, {"literal":"e"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "relation$subexpression$7", "symbols": ["relation$subexpression$7$string$2"]},
+    {"name": "relation", "symbols": ["relation$subexpression$7"], "postprocess": R("above")},
+    {"name": "from$subexpression$1$string$1", "symbols": [{"literal":"u"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "from$subexpression$1", "symbols": ["from$subexpression$1$string$1"]},
+    {"name": "from$subexpression$1$string$2", "symbols": [{"literal":"u"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "from$subexpression$1$string$3", "symbols": [{"literal":"u"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "from$subexpression$1", "symbols": ["from$subexpression$1$string$2", "from$subexpression$1$string$3"]},
+    {"name": "from$subexpression$1$string$4", "symbols": [{"literal":"f"}, {"literal":"r"}, {"literal":"å"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "from$subexpression$1", "symbols": ["from$subexpression$1$string$4"]},
+    {"name": "from", "symbols": ["from$subexpression$1"], "postprocess": R("inside")},
+    {"name": "from$subexpression$2$string$1", "symbols": [{"literal":"a"}, {"literal":"v"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "from$subexpression$2", "symbols": ["from$subexpression$2$string$1"]},
+    {"name": "from$subexpression$2$string$2", "symbols": [{"literal":"n"}, {"literal":"e"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "from$subexpression$2$string$3", "symbols": [{"literal":"f"}, {"literal":"r"}, {"literal":"å"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "from$subexpression$2", "symbols": ["from$subexpression$2$string$2", "from$subexpression$2$string$3"]},
+    {"name": "from", "symbols": ["from$subexpression$2"], "postprocess": R("ontop")},
+    {"name": "superlative$subexpression$1$string$1", "symbols": [{"literal":"v"}, {"literal":"ä"}, {"literal":"n"}, {"literal":"s"}, {"literal":"t"}, {"literal":"r"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "superlative$subexpression$1", "symbols": ["superlative$subexpression$1$string$1"]},
+    {"name": "superlative$subexpression$1$string$2", "symbols": [{"literal":"v"}, {"literal":"ä"}, {"literal":"n"}, {"literal":"s"}, {"literal":"t"}, {"literal":"r"}, {"literal":"a"}, {"literal":"s"}, {"literal":"t"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "superlative$subexpression$1", "symbols": ["superlative$subexpression$1$string$2"]},
+    {"name": "superlative", "symbols": ["superlative$subexpression$1"], "postprocess": R("leftmost")},
+    {"name": "superlative$subexpression$2$string$1", "symbols": [{"literal":"h"}, {"literal":"ö"}, {"literal":"g"}, {"literal":"r"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "superlative$subexpression$2", "symbols": ["superlative$subexpression$2$string$1"]},
+    {"name": "superlative$subexpression$2$string$2", "symbols": [{"literal":"h"}, {"literal":"ö"}, {"literal":"g"}, {"literal":"r"}, {"literal":"a"}, {"literal":"s"}, {"literal":"t"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "superlative$subexpression$2", "symbols": ["superlative$subexpression$2$string$2"]},
+    {"name": "superlative", "symbols": ["superlative$subexpression$2"], "postprocess": R("rightmost")},
+    {"name": "superlative$string$1", "symbols": [{"literal":"h"}, {"literal":"ö"}, {"literal":"g"}, {"literal":"s"}, {"literal":"t"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "superlative", "symbols": ["superlative$string$1"], "postprocess": R("highest")},
+    {"name": "superlative$string$2", "symbols": [{"literal":"l"}, {"literal":"ä"}, {"literal":"g"}, {"literal":"s"}, {"literal":"t"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "superlative", "symbols": ["superlative$string$2"], "postprocess": R("lowest")},
+    {"name": "superlative$string$3", "symbols": [{"literal":"ö"}, {"literal":"v"}, {"literal":"e"}, {"literal":"r"}, {"literal":"s"}, {"literal":"t"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "superlative", "symbols": ["superlative$string$3"], "postprocess": R("top")},
+    {"name": "superlative$subexpression$3$string$1", "symbols": [{"literal":"n"}, {"literal":"e"}, {"literal":"d"}, {"literal":"e"}, {"literal":"r"}, {"literal":"s"}, {"literal":"t"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "superlative$subexpression$3", "symbols": ["superlative$subexpression$3$string$1"]},
+    {"name": "superlative$subexpression$3$string$2", "symbols": [{"literal":"u"}, {"literal":"n"}, {"literal":"d"}, {"literal":"e"}, {"literal":"r"}, {"literal":"s"}, {"literal":"t"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "superlative$subexpression$3", "symbols": ["superlative$subexpression$3$string$2"]},
+    {"name": "superlative", "symbols": ["superlative$subexpression$3"], "postprocess": R("bottom")},
+    {"name": "superlative$string$4", "symbols": [{"literal":"s"}, {"literal":"t"}, {"literal":"ö"}, {"literal":"r"}, {"literal":"s"}, {"literal":"t"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "superlative", "symbols": ["superlative$string$4"], "postprocess": R("largest")},
+    {"name": "superlative$string$5", "symbols": [{"literal":"m"}, {"literal":"i"}, {"literal":"n"}, {"literal":"s"}, {"literal":"t"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "superlative", "symbols": ["superlative$string$5"], "postprocess": R("smallest")},
+    {"name": "comparative$string$1", "symbols": [{"literal":"m"}, {"literal":"i"}, {"literal":"n"}, {"literal":"d"}, {"literal":"r"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "comparative", "symbols": ["comparative$string$1"], "postprocess": R("smaller")},
+    {"name": "comparative$string$2", "symbols": [{"literal":"s"}, {"literal":"t"}, {"literal":"ö"}, {"literal":"r"}, {"literal":"r"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "comparative", "symbols": ["comparative$string$2"], "postprocess": R("larger")},
+    {"name": "attribute$string$1", "symbols": [{"literal":"f"}, {"literal":"ä"}, {"literal":"r"}, {"literal":"g"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "attribute", "symbols": ["attribute$string$1"], "postprocess": R("samecolor")},
+    {"name": "attribute$string$2", "symbols": [{"literal":"s"}, {"literal":"t"}, {"literal":"o"}, {"literal":"r"}, {"literal":"l"}, {"literal":"e"}, {"literal":"k"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "attribute", "symbols": ["attribute$string$2"], "postprocess": R("samesize")},
+    {"name": "attribute$subexpression$1$string$1", "symbols": [{"literal":"f"}, {"literal":"o"}, {"literal":"r"}, {"literal":"m"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "attribute$subexpression$1", "symbols": ["attribute$subexpression$1$string$1"]},
+    {"name": "attribute$subexpression$1$string$2", "symbols": [{"literal":"f"}, {"literal":"o"}, {"literal":"r"}, {"literal":"m"}, {"literal":"e"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "attribute$subexpression$1", "symbols": ["attribute$subexpression$1$string$2"]},
+    {"name": "attribute", "symbols": ["attribute$subexpression$1"], "postprocess": R("sameform")},
+    {"name": "ordinal$string$1", "symbols": [{"literal":"f"}, {"literal":"ö"}, {"literal":"r"}, {"literal":"s"}, {"literal":"t"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "ordinal", "symbols": ["ordinal$string$1"], "postprocess": C(1)},
+    {"name": "ordinal$string$2", "symbols": [{"literal":"a"}, {"literal":"n"}, {"literal":"d"}, {"literal":"r"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "ordinal", "symbols": ["ordinal$string$2"], "postprocess": C(2)},
+    {"name": "ordinal$string$3", "symbols": [{"literal":"t"}, {"literal":"r"}, {"literal":"e"}, {"literal":"d"}, {"literal":"j"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "ordinal", "symbols": ["ordinal$string$3"], "postprocess": C(3)},
+    {"name": "ordinal$string$4", "symbols": [{"literal":"f"}, {"literal":"j"}, {"literal":"ä"}, {"literal":"r"}, {"literal":"d"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "ordinal", "symbols": ["ordinal$string$4"], "postprocess": C(4)},
+    {"name": "ordinal$string$5", "symbols": [{"literal":"f"}, {"literal":"e"}, {"literal":"m"}, {"literal":"t"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "ordinal", "symbols": ["ordinal$string$5"], "postprocess": C(5)},
+    {"name": "ordinal$string$6", "symbols": [{"literal":"s"}, {"literal":"j"}, {"literal":"ä"}, {"literal":"t"}, {"literal":"t"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "ordinal", "symbols": ["ordinal$string$6"], "postprocess": C(6)},
+    {"name": "ordinal$string$7", "symbols": [{"literal":"s"}, {"literal":"j"}, {"literal":"u"}, {"literal":"n"}, {"literal":"d"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "ordinal", "symbols": ["ordinal$string$7"], "postprocess": C(7)},
+    {"name": "ordinal$string$8", "symbols": [{"literal":"å"}, {"literal":"t"}, {"literal":"t"}, {"literal":"o"}, {"literal":"n"}, {"literal":"d"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "ordinal", "symbols": ["ordinal$string$8"], "postprocess": C(8)},
+    {"name": "ordinal$string$9", "symbols": [{"literal":"n"}, {"literal":"i"}, {"literal":"o"}, {"literal":"n"}, {"literal":"d"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "ordinal", "symbols": ["ordinal$string$9"], "postprocess": C(9)},
+    {"name": "ordinal$string$10", "symbols": [{"literal":"t"}, {"literal":"i"}, {"literal":"o"}, {"literal":"n"}, {"literal":"d"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "ordinal", "symbols": ["ordinal$string$10"], "postprocess": C(10)},
+    {"name": "columnSG$subexpression$1$string$1", "symbols": [{"literal":"k"}, {"literal":"o"}, {"literal":"l"}, {"literal":"u"}, {"literal":"m"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "columnSG$subexpression$1", "symbols": ["columnSG$subexpression$1$string$1"]},
+    {"name": "columnSG$subexpression$1$string$2", "symbols": [{"literal":"k"}, {"literal":"o"}, {"literal":"l"}, {"literal":"u"}, {"literal":"m"}, {"literal":"n"}, {"literal":"e"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "columnSG$subexpression$1", "symbols": ["columnSG$subexpression$1$string$2"]},
+    {"name": "columnSG$subexpression$1$string$3", "symbols": [{"literal":"s"}, {"literal":"t"}, {"literal":"a"}, {"literal":"p"}, {"literal":"e"}, {"literal":"l"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "columnSG$subexpression$1", "symbols": ["columnSG$subexpression$1$string$3"]},
+    {"name": "columnSG$subexpression$1$string$4", "symbols": [{"literal":"s"}, {"literal":"t"}, {"literal":"a"}, {"literal":"p"}, {"literal":"e"}, {"literal":"l"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "columnSG$subexpression$1", "symbols": ["columnSG$subexpression$1$string$4"]},
+    {"name": "columnSG", "symbols": ["columnSG$subexpression$1"], "postprocess": R("column")},
+    {"name": "columnPL$subexpression$1$string$1", "symbols": [{"literal":"k"}, {"literal":"o"}, {"literal":"l"}, {"literal":"u"}, {"literal":"m"}, {"literal":"n"}, {"literal":"e"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "columnPL$subexpression$1", "symbols": ["columnPL$subexpression$1$string$1"]},
+    {"name": "columnPL$subexpression$1$string$2", "symbols": [{"literal":"k"}, {"literal":"o"}, {"literal":"l"}, {"literal":"u"}, {"literal":"m"}, {"literal":"n"}, {"literal":"e"}, {"literal":"r"}, {"literal":"n"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "columnPL$subexpression$1", "symbols": ["columnPL$subexpression$1$string$2"]},
+    {"name": "columnPL$subexpression$1$string$3", "symbols": [{"literal":"s"}, {"literal":"t"}, {"literal":"a"}, {"literal":"p"}, {"literal":"l"}, {"literal":"a"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "columnPL$subexpression$1", "symbols": ["columnPL$subexpression$1$string$3"]},
+    {"name": "columnPL$subexpression$1$string$4", "symbols": [{"literal":"s"}, {"literal":"t"}, {"literal":"a"}, {"literal":"p"}, {"literal":"l"}, {"literal":"a"}, {"literal":"r"}, {"literal":"n"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "columnPL$subexpression$1", "symbols": ["columnPL$subexpression$1$string$4"]},
+    {"name": "columnPL", "symbols": ["columnPL$subexpression$1"], "postprocess": R("column")},
+    {"name": "spotSG$subexpression$1$string$1", "symbols": [{"literal":"p"}, {"literal":"l"}, {"literal":"a"}, {"literal":"t"}, {"literal":"s"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "spotSG$subexpression$1", "symbols": ["spotSG$subexpression$1$string$1"]},
+    {"name": "spotSG$subexpression$1$string$2", "symbols": [{"literal":"p"}, {"literal":"l"}, {"literal":"a"}, {"literal":"t"}, {"literal":"s"}, {"literal":"e"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "spotSG$subexpression$1", "symbols": ["spotSG$subexpression$1$string$2"]},
+    {"name": "spotSG", "symbols": ["spotSG$subexpression$1"], "postprocess": R("spot")},
+    {"name": "spotPL$subexpression$1$string$1", "symbols": [{"literal":"p"}, {"literal":"l"}, {"literal":"a"}, {"literal":"t"}, {"literal":"s"}, {"literal":"e"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "spotPL$subexpression$1", "symbols": ["spotPL$subexpression$1$string$1"]},
+    {"name": "spotPL$subexpression$1$string$2", "symbols": [{"literal":"p"}, {"literal":"l"}, {"literal":"a"}, {"literal":"t"}, {"literal":"s"}, {"literal":"e"}, {"literal":"r"}, {"literal":"n"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "spotPL$subexpression$1", "symbols": ["spotPL$subexpression$1$string$2"]},
+    {"name": "spotPL", "symbols": ["spotPL$subexpression$1"], "postprocess": R("spot")},
+    {"name": "size$subexpression$1$string$1", "symbols": [{"literal":"l"}, {"literal":"i"}, {"literal":"t"}, {"literal":"e"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "size$subexpression$1", "symbols": ["size$subexpression$1$string$1"]},
+    {"name": "size$subexpression$1$string$2", "symbols": [{"literal":"l"}, {"literal":"i"}, {"literal":"t"}, {"literal":"e"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "size$subexpression$1", "symbols": ["size$subexpression$1$string$2"]},
+    {"name": "size$subexpression$1$string$3", "symbols": [{"literal":"l"}, {"literal":"i"}, {"literal":"l"}, {"literal":"l"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "size$subexpression$1", "symbols": ["size$subexpression$1$string$3"]},
+    {"name": "size$subexpression$1$string$4", "symbols": [{"literal":"s"}, {"literal":"m"}, {"literal":"å"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "size$subexpression$1", "symbols": ["size$subexpression$1$string$4"]},
+    {"name": "size", "symbols": ["size$subexpression$1"], "postprocess": R("small")},
+    {"name": "size$subexpression$2$string$1", "symbols": [{"literal":"s"}, {"literal":"t"}, {"literal":"o"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "size$subexpression$2", "symbols": ["size$subexpression$2$string$1"]},
+    {"name": "size$subexpression$2$string$2", "symbols": [{"literal":"s"}, {"literal":"t"}, {"literal":"o"}, {"literal":"r"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "size$subexpression$2", "symbols": ["size$subexpression$2$string$2"]},
+    {"name": "size$subexpression$2$string$3", "symbols": [{"literal":"s"}, {"literal":"t"}, {"literal":"o"}, {"literal":"r"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "size$subexpression$2", "symbols": ["size$subexpression$2$string$3"]},
+    {"name": "size", "symbols": ["size$subexpression$2"], "postprocess": R("large")},
+    {"name": "color$subexpression$1$string$1", "symbols": [{"literal":"s"}, {"literal":"v"}, {"literal":"a"}, {"literal":"r"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "color$subexpression$1", "symbols": ["color$subexpression$1$string$1"]},
+    {"name": "color$subexpression$1$string$2", "symbols": [{"literal":"s"}, {"literal":"v"}, {"literal":"a"}, {"literal":"r"}, {"literal":"t"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "color$subexpression$1", "symbols": ["color$subexpression$1$string$2"]},
+    {"name": "color", "symbols": ["color$subexpression$1"], "postprocess": R("black")},
+    {"name": "color$subexpression$2$string$1", "symbols": [{"literal":"v"}, {"literal":"i"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "color$subexpression$2", "symbols": ["color$subexpression$2$string$1"]},
+    {"name": "color$subexpression$2$string$2", "symbols": [{"literal":"v"}, {"literal":"i"}, {"literal":"t"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "color$subexpression$2", "symbols": ["color$subexpression$2$string$2"]},
+    {"name": "color$subexpression$2$string$3", "symbols": [{"literal":"v"}, {"literal":"i"}, {"literal":"t"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "color$subexpression$2", "symbols": ["color$subexpression$2$string$3"]},
+    {"name": "color", "symbols": ["color$subexpression$2"], "postprocess": R("white")},
+    {"name": "color$subexpression$3$string$1", "symbols": [{"literal":"b"}, {"literal":"l"}, {"literal":"å"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "color$subexpression$3", "symbols": ["color$subexpression$3$string$1"]},
+    {"name": "color$subexpression$3$string$2", "symbols": [{"literal":"b"}, {"literal":"l"}, {"literal":"å"}, {"literal":"t"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "color$subexpression$3", "symbols": ["color$subexpression$3$string$2"]},
+    {"name": "color", "symbols": ["color$subexpression$3"], "postprocess": R("blue")},
+    {"name": "color$subexpression$4$string$1", "symbols": [{"literal":"g"}, {"literal":"r"}, {"literal":"ö"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "color$subexpression$4", "symbols": ["color$subexpression$4$string$1"]},
+    {"name": "color$subexpression$4$string$2", "symbols": [{"literal":"g"}, {"literal":"r"}, {"literal":"ö"}, {"literal":"n"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "color$subexpression$4", "symbols": ["color$subexpression$4$string$2"]},
+    {"name": "color$subexpression$4$string$3", "symbols": [{"literal":"g"}, {"literal":"r"}, {"literal":"ö"}, {"literal":"n"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "color$subexpression$4", "symbols": ["color$subexpression$4$string$3"]},
+    {"name": "color", "symbols": ["color$subexpression$4"], "postprocess": R("green")},
+    {"name": "color$subexpression$5$string$1", "symbols": [{"literal":"g"}, {"literal":"u"}, {"literal":"l"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "color$subexpression$5", "symbols": ["color$subexpression$5$string$1"]},
+    {"name": "color$subexpression$5$string$2", "symbols": [{"literal":"g"}, {"literal":"u"}, {"literal":"l"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "color$subexpression$5", "symbols": ["color$subexpression$5$string$2"]},
+    {"name": "color$subexpression$5$string$3", "symbols": [{"literal":"g"}, {"literal":"u"}, {"literal":"l"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "color$subexpression$5", "symbols": ["color$subexpression$5$string$3"]},
+    {"name": "color", "symbols": ["color$subexpression$5"], "postprocess": R("yellow")},
+    {"name": "color$subexpression$6$string$1", "symbols": [{"literal":"r"}, {"literal":"ö"}, {"literal":"d"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "color$subexpression$6", "symbols": ["color$subexpression$6$string$1"]},
+    {"name": "color$subexpression$6$string$2", "symbols": [{"literal":"r"}, {"literal":"ö"}, {"literal":"t"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "color$subexpression$6", "symbols": ["color$subexpression$6$string$2"]},
+    {"name": "color$subexpression$6$string$3", "symbols": [{"literal":"r"}, {"literal":"ö"}, {"literal":"d"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "color$subexpression$6", "symbols": ["color$subexpression$6$string$3"]},
+    {"name": "color", "symbols": ["color$subexpression$6"], "postprocess": R("red")},
+    {"name": "formSG$subexpression$1$string$1", "symbols": [{"literal":"f"}, {"literal":"ö"}, {"literal":"r"}, {"literal":"e"}, {"literal":"m"}, {"literal":"å"}, {"literal":"l"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formSG$subexpression$1", "symbols": ["formSG$subexpression$1$string$1"]},
+    {"name": "formSG$subexpression$1$string$2", "symbols": [{"literal":"f"}, {"literal":"ö"}, {"literal":"r"}, {"literal":"e"}, {"literal":"m"}, {"literal":"å"}, {"literal":"l"}, {"literal":"e"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formSG$subexpression$1", "symbols": ["formSG$subexpression$1$string$2"]},
+    {"name": "formSG$subexpression$1$string$3", "symbols": [{"literal":"o"}, {"literal":"b"}, {"literal":"j"}, {"literal":"e"}, {"literal":"k"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formSG$subexpression$1", "symbols": ["formSG$subexpression$1$string$3"]},
+    {"name": "formSG$subexpression$1$string$4", "symbols": [{"literal":"o"}, {"literal":"b"}, {"literal":"j"}, {"literal":"e"}, {"literal":"k"}, {"literal":"t"}, {"literal":"e"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formSG$subexpression$1", "symbols": ["formSG$subexpression$1$string$4"]},
+    {"name": "formSG$subexpression$1$string$5", "symbols": [{"literal":"s"}, {"literal":"a"}, {"literal":"k"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formSG$subexpression$1", "symbols": ["formSG$subexpression$1$string$5"]},
+    {"name": "formSG$subexpression$1$string$6", "symbols": [{"literal":"s"}, {"literal":"a"}, {"literal":"k"}, {"literal":"e"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formSG$subexpression$1", "symbols": ["formSG$subexpression$1$string$6"]},
+    {"name": "formSG", "symbols": ["formSG$subexpression$1"], "postprocess": R("anyform")},
+    {"name": "formPL$subexpression$1$string$1", "symbols": [{"literal":"f"}, {"literal":"ö"}, {"literal":"r"}, {"literal":"e"}, {"literal":"m"}, {"literal":"å"}, {"literal":"l"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formPL$subexpression$1", "symbols": ["formPL$subexpression$1$string$1"]},
+    {"name": "formPL$subexpression$1$string$2", "symbols": [{"literal":"f"}, {"literal":"ö"}, {"literal":"r"}, {"literal":"e"}, {"literal":"m"}, {"literal":"å"}, {"literal":"l"}, {"literal":"e"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formPL$subexpression$1", "symbols": ["formPL$subexpression$1$string$2"]},
+    {"name": "formPL$subexpression$1$string$3", "symbols": [{"literal":"o"}, {"literal":"b"}, {"literal":"j"}, {"literal":"e"}, {"literal":"k"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formPL$subexpression$1", "symbols": ["formPL$subexpression$1$string$3"]},
+    {"name": "formPL$subexpression$1$string$4", "symbols": [{"literal":"o"}, {"literal":"b"}, {"literal":"j"}, {"literal":"e"}, {"literal":"k"}, {"literal":"t"}, {"literal":"e"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formPL$subexpression$1", "symbols": ["formPL$subexpression$1$string$4"]},
+    {"name": "formPL$subexpression$1$string$5", "symbols": [{"literal":"s"}, {"literal":"a"}, {"literal":"k"}, {"literal":"e"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formPL$subexpression$1", "symbols": ["formPL$subexpression$1$string$5"]},
+    {"name": "formPL$subexpression$1$string$6", "symbols": [{"literal":"s"}, {"literal":"a"}, {"literal":"k"}, {"literal":"e"}, {"literal":"r"}, {"literal":"n"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formPL$subexpression$1", "symbols": ["formPL$subexpression$1$string$6"]},
+    {"name": "formPL", "symbols": ["formPL$subexpression$1"], "postprocess": R("anyform")},
+    {"name": "formSG$subexpression$2$string$1", "symbols": [{"literal":"t"}, {"literal":"e"}, {"literal":"g"}, {"literal":"e"}, {"literal":"l"}, {"literal":"s"}, {"literal":"t"}, {"literal":"e"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formSG$subexpression$2", "symbols": ["formSG$subexpression$2$string$1"]},
+    {"name": "formSG$subexpression$2$string$2", "symbols": [{"literal":"t"}, {"literal":"e"}, {"literal":"g"}, {"literal":"e"}, {"literal":"l"}, {"literal":"s"}, {"literal":"t"}, {"literal":"e"}, {"literal":"n"}, {"literal":"e"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formSG$subexpression$2", "symbols": ["formSG$subexpression$2$string$2"]},
+    {"name": "formSG$subexpression$2$string$3", "symbols": [{"literal":"k"}, {"literal":"l"}, {"literal":"o"}, {"literal":"s"}, {"literal":"s"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formSG$subexpression$2", "symbols": ["formSG$subexpression$2$string$3"]},
+    {"name": "formSG$subexpression$2$string$4", "symbols": [{"literal":"k"}, {"literal":"l"}, {"literal":"o"}, {"literal":"s"}, {"literal":"s"}, {"literal":"e"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formSG$subexpression$2", "symbols": ["formSG$subexpression$2$string$4"]},
+    {"name": "formSG", "symbols": ["formSG$subexpression$2"], "postprocess": R("brick")},
+    {"name": "formPL$subexpression$2$string$1", "symbols": [{"literal":"t"}, {"literal":"e"}, {"literal":"g"}, {"literal":"e"}, {"literal":"l"}, {"literal":"s"}, {"literal":"t"}, {"literal":"e"}, {"literal":"n"}, {"literal":"a"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formPL$subexpression$2", "symbols": ["formPL$subexpression$2$string$1"]},
+    {"name": "formPL$subexpression$2$string$2", "symbols": [{"literal":"t"}, {"literal":"e"}, {"literal":"g"}, {"literal":"e"}, {"literal":"l"}, {"literal":"s"}, {"literal":"t"}, {"literal":"e"}, {"literal":"n"}, {"literal":"a"}, {"literal":"r"}, {"literal":"n"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formPL$subexpression$2", "symbols": ["formPL$subexpression$2$string$2"]},
+    {"name": "formPL$subexpression$2$string$3", "symbols": [{"literal":"k"}, {"literal":"l"}, {"literal":"o"}, {"literal":"s"}, {"literal":"s"}, {"literal":"a"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formPL$subexpression$2", "symbols": ["formPL$subexpression$2$string$3"]},
+    {"name": "formPL$subexpression$2$string$4", "symbols": [{"literal":"k"}, {"literal":"l"}, {"literal":"o"}, {"literal":"s"}, {"literal":"s"}, {"literal":"a"}, {"literal":"r"}, {"literal":"n"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formPL$subexpression$2", "symbols": ["formPL$subexpression$2$string$4"]},
+    {"name": "formPL", "symbols": ["formPL$subexpression$2"], "postprocess": R("brick")},
+    {"name": "formSG$subexpression$3$string$1", "symbols": [{"literal":"p"}, {"literal":"l"}, {"literal":"a"}, {"literal":"n"}, {"literal":"k"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formSG$subexpression$3", "symbols": ["formSG$subexpression$3$string$1"]},
+    {"name": "formSG$subexpression$3$string$2", "symbols": [{"literal":"p"}, {"literal":"l"}, {"literal":"a"}, {"literal":"n"}, {"literal":"k"}, {"literal":"a"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formSG$subexpression$3", "symbols": ["formSG$subexpression$3$string$2"]},
+    {"name": "formSG", "symbols": ["formSG$subexpression$3"], "postprocess": R("plank")},
+    {"name": "formPL$subexpression$3$string$1", "symbols": [{"literal":"p"}, {"literal":"l"}, {"literal":"a"}, {"literal":"n"}, {"literal":"k"}, {"literal":"o"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formPL$subexpression$3", "symbols": ["formPL$subexpression$3$string$1"]},
+    {"name": "formPL$subexpression$3$string$2", "symbols": [{"literal":"p"}, {"literal":"l"}, {"literal":"a"}, {"literal":"n"}, {"literal":"k"}, {"literal":"o"}, {"literal":"r"}, {"literal":"n"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formPL$subexpression$3", "symbols": ["formPL$subexpression$3$string$2"]},
+    {"name": "formPL", "symbols": ["formPL$subexpression$3"], "postprocess": R("plank")},
+    {"name": "formSG$subexpression$4$string$1", "symbols": [{"literal":"b"}, {"literal":"o"}, {"literal":"l"}, {"literal":"l"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formSG$subexpression$4", "symbols": ["formSG$subexpression$4$string$1"]},
+    {"name": "formSG$subexpression$4$string$2", "symbols": [{"literal":"b"}, {"literal":"o"}, {"literal":"l"}, {"literal":"l"}, {"literal":"e"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formSG$subexpression$4", "symbols": ["formSG$subexpression$4$string$2"]},
+    {"name": "formSG$subexpression$4$string$3", "symbols": [{"literal":"k"}, {"literal":"l"}, {"literal":"o"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formSG$subexpression$4", "symbols": ["formSG$subexpression$4$string$3"]},
+    {"name": "formSG$subexpression$4$string$4", "symbols": [{"literal":"k"}, {"literal":"l"}, {"literal":"o"}, {"literal":"t"}, {"literal":"e"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formSG$subexpression$4", "symbols": ["formSG$subexpression$4$string$4"]},
+    {"name": "formSG", "symbols": ["formSG$subexpression$4"], "postprocess": R("ball")},
+    {"name": "formPL$subexpression$4$string$1", "symbols": [{"literal":"b"}, {"literal":"o"}, {"literal":"l"}, {"literal":"l"}, {"literal":"a"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formPL$subexpression$4", "symbols": ["formPL$subexpression$4$string$1"]},
+    {"name": "formPL$subexpression$4$string$2", "symbols": [{"literal":"b"}, {"literal":"o"}, {"literal":"l"}, {"literal":"l"}, {"literal":"a"}, {"literal":"r"}, {"literal":"n"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formPL$subexpression$4", "symbols": ["formPL$subexpression$4$string$2"]},
+    {"name": "formPL$subexpression$4$string$3", "symbols": [{"literal":"k"}, {"literal":"l"}, {"literal":"o"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formPL$subexpression$4", "symbols": ["formPL$subexpression$4$string$3"]},
+    {"name": "formPL$subexpression$4$string$4", "symbols": [{"literal":"k"}, {"literal":"l"}, {"literal":"o"}, {"literal":"t"}, {"literal":"e"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formPL$subexpression$4", "symbols": ["formPL$subexpression$4$string$4"]},
+    {"name": "formPL", "symbols": ["formPL$subexpression$4"], "postprocess": R("ball")},
+    {"name": "formSG$subexpression$5$string$1", "symbols": [{"literal":"p"}, {"literal":"y"}, {"literal":"r"}, {"literal":"a"}, {"literal":"m"}, {"literal":"i"}, {"literal":"d"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formSG$subexpression$5", "symbols": ["formSG$subexpression$5$string$1"]},
+    {"name": "formSG$subexpression$5$string$2", "symbols": [{"literal":"p"}, {"literal":"y"}, {"literal":"r"}, {"literal":"a"}, {"literal":"m"}, {"literal":"i"}, {"literal":"d"}, {"literal":"e"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formSG$subexpression$5", "symbols": ["formSG$subexpression$5$string$2"]},
+    {"name": "formSG", "symbols": ["formSG$subexpression$5"], "postprocess": R("pyramid")},
+    {"name": "formPL$subexpression$5$string$1", "symbols": [{"literal":"p"}, {"literal":"y"}, {"literal":"r"}, {"literal":"a"}, {"literal":"m"}, {"literal":"i"}, {"literal":"d"}, {"literal":"e"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formPL$subexpression$5", "symbols": ["formPL$subexpression$5$string$1"]},
+    {"name": "formPL$subexpression$5$string$2", "symbols": [{"literal":"p"}, {"literal":"y"}, {"literal":"r"}, {"literal":"a"}, {"literal":"m"}, {"literal":"i"}, {"literal":"d"}, {"literal":"e"}, {"literal":"r"}, {"literal":"n"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formPL$subexpression$5", "symbols": ["formPL$subexpression$5$string$2"]},
+    {"name": "formPL", "symbols": ["formPL$subexpression$5"], "postprocess": R("pyramid")},
+    {"name": "formSG$subexpression$6$string$1", "symbols": [{"literal":"b"}, {"literal":"o"}, {"literal":"r"}, {"literal":"d"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formSG$subexpression$6", "symbols": ["formSG$subexpression$6$string$1"]},
+    {"name": "formSG$subexpression$6$string$2", "symbols": [{"literal":"b"}, {"literal":"o"}, {"literal":"r"}, {"literal":"d"}, {"literal":"e"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formSG$subexpression$6", "symbols": ["formSG$subexpression$6$string$2"]},
+    {"name": "formSG", "symbols": ["formSG$subexpression$6"], "postprocess": R("table")},
+    {"name": "formPL$subexpression$6$string$1", "symbols": [{"literal":"b"}, {"literal":"o"}, {"literal":"r"}, {"literal":"d"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formPL$subexpression$6", "symbols": ["formPL$subexpression$6$string$1"]},
+    {"name": "formPL$subexpression$6$string$2", "symbols": [{"literal":"b"}, {"literal":"o"}, {"literal":"r"}, {"literal":"d"}, {"literal":"e"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formPL$subexpression$6", "symbols": ["formPL$subexpression$6$string$2"]},
+    {"name": "formPL", "symbols": ["formPL$subexpression$6"], "postprocess": R("table")},
+    {"name": "formSG$subexpression$7$string$1", "symbols": [{"literal":"g"}, {"literal":"o"}, {"literal":"l"}, {"literal":"v"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formSG$subexpression$7", "symbols": ["formSG$subexpression$7$string$1"]},
+    {"name": "formSG$subexpression$7$string$2", "symbols": [{"literal":"g"}, {"literal":"o"}, {"literal":"l"}, {"literal":"v"}, {"literal":"e"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formSG$subexpression$7", "symbols": ["formSG$subexpression$7$string$2"]},
+    {"name": "formSG", "symbols": ["formSG$subexpression$7"], "postprocess": R("floor")},
+    {"name": "formPL$subexpression$7$string$1", "symbols": [{"literal":"g"}, {"literal":"o"}, {"literal":"l"}, {"literal":"v"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formPL$subexpression$7", "symbols": ["formPL$subexpression$7$string$1"]},
+    {"name": "formPL$subexpression$7$string$2", "symbols": [{"literal":"g"}, {"literal":"o"}, {"literal":"l"}, {"literal":"v"}, {"literal":"e"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formPL$subexpression$7", "symbols": ["formPL$subexpression$7$string$2"]},
+    {"name": "formPL", "symbols": ["formPL$subexpression$7"], "postprocess": R("floor")},
+    {"name": "formSG$subexpression$8$string$1", "symbols": [{"literal":"l"}, {"literal":"å"}, {"literal":"d"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formSG$subexpression$8", "symbols": ["formSG$subexpression$8$string$1"]},
+    {"name": "formSG$subexpression$8$string$2", "symbols": [{"literal":"l"}, {"literal":"å"}, {"literal":"d"}, {"literal":"a"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formSG$subexpression$8", "symbols": ["formSG$subexpression$8$string$2"]},
+    {"name": "formSG$subexpression$8$string$3", "symbols": [{"literal":"b"}, {"literal":"o"}, {"literal":"x"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formSG$subexpression$8", "symbols": ["formSG$subexpression$8$string$3"]},
+    {"name": "formSG$subexpression$8$string$4", "symbols": [{"literal":"b"}, {"literal":"o"}, {"literal":"x"}, {"literal":"e"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formSG$subexpression$8", "symbols": ["formSG$subexpression$8$string$4"]},
+    {"name": "formSG", "symbols": ["formSG$subexpression$8"], "postprocess": R("box")},
+    {"name": "formPL$subexpression$8$string$1", "symbols": [{"literal":"l"}, {"literal":"å"}, {"literal":"d"}, {"literal":"o"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formPL$subexpression$8", "symbols": ["formPL$subexpression$8$string$1"]},
+    {"name": "formPL$subexpression$8$string$2", "symbols": [{"literal":"l"}, {"literal":"å"}, {"literal":"d"}, {"literal":"o"}, {"literal":"r"}, {"literal":"n"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formPL$subexpression$8", "symbols": ["formPL$subexpression$8$string$2"]},
+    {"name": "formPL$subexpression$8$string$3", "symbols": [{"literal":"b"}, {"literal":"o"}, {"literal":"x"}, {"literal":"a"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formPL$subexpression$8", "symbols": ["formPL$subexpression$8$string$3"]},
+    {"name": "formPL$subexpression$8$string$4", "symbols": [{"literal":"b"}, {"literal":"o"}, {"literal":"x"}, {"literal":"a"}, {"literal":"r"}, {"literal":"n"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formPL$subexpression$8", "symbols": ["formPL$subexpression$8$string$4"]},
+    {"name": "formPL", "symbols": ["formPL$subexpression$8"], "postprocess": R("box")},
+    {"name": "take$string$1", "symbols": [{"literal":"t"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "take", "symbols": ["take$string$1"]},
+    {"name": "take$string$2", "symbols": [{"literal":"t"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "take$string$3", "symbols": [{"literal":"u"}, {"literal":"p"}, {"literal":"p"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "take", "symbols": ["take$string$2", "take$string$3"]},
+    {"name": "take$string$4", "symbols": [{"literal":"p"}, {"literal":"l"}, {"literal":"o"}, {"literal":"c"}, {"literal":"k"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "take", "symbols": ["take$string$4"]},
+    {"name": "take$string$5", "symbols": [{"literal":"p"}, {"literal":"l"}, {"literal":"o"}, {"literal":"c"}, {"literal":"k"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "take$string$6", "symbols": [{"literal":"u"}, {"literal":"p"}, {"literal":"p"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "take", "symbols": ["take$string$5", "take$string$6"]},
+    {"name": "take$string$7", "symbols": [{"literal":"l"}, {"literal":"y"}, {"literal":"f"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "take", "symbols": ["take$string$7"]},
+    {"name": "take$string$8", "symbols": [{"literal":"l"}, {"literal":"y"}, {"literal":"f"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "take$string$9", "symbols": [{"literal":"u"}, {"literal":"p"}, {"literal":"p"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "take", "symbols": ["take$string$8", "take$string$9"]},
+    {"name": "take$string$10", "symbols": [{"literal":"g"}, {"literal":"r"}, {"literal":"e"}, {"literal":"p"}, {"literal":"p"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "take", "symbols": ["take$string$10"]},
+    {"name": "where_is$string$1", "symbols": [{"literal":"v"}, {"literal":"a"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "where_is", "symbols": ["where_is$string$1", "be"]},
+    {"name": "how_many$string$1", "symbols": [{"literal":"h"}, {"literal":"u"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "how_many$string$2", "symbols": [{"literal":"m"}, {"literal":"å"}, {"literal":"n"}, {"literal":"g"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "how_many", "symbols": ["how_many$string$1", "how_many$string$2"]},
+    {"name": "are_there$subexpression$1$string$1", "symbols": [{"literal":"f"}, {"literal":"i"}, {"literal":"n"}, {"literal":"n"}, {"literal":"s"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "are_there$subexpression$1", "symbols": ["are_there$subexpression$1$string$1"]},
+    {"name": "are_there$subexpression$1$string$2", "symbols": [{"literal":"ä"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "are_there$subexpression$1", "symbols": ["are_there$subexpression$1$string$2"]},
+    {"name": "are_there$string$1", "symbols": [{"literal":"d"}, {"literal":"e"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "are_there", "symbols": ["are_there$subexpression$1", "are_there$string$1"]},
+    {"name": "are", "symbols": ["be"]},
+    {"name": "are$string$1", "symbols": [{"literal":"f"}, {"literal":"i"}, {"literal":"n"}, {"literal":"n"}, {"literal":"s"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "are$string$2", "symbols": [{"literal":"d"}, {"literal":"e"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "are", "symbols": ["are$string$1", "are$string$2"]},
+    {"name": "is", "symbols": ["be"]},
+    {"name": "is$string$1", "symbols": [{"literal":"f"}, {"literal":"i"}, {"literal":"n"}, {"literal":"n"}, {"literal":"s"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "is", "symbols": ["is$string$1"]},
+    {"name": "be$string$1", "symbols": [{"literal":"ä"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "be", "symbols": ["be$string$1"]},
+    {"name": "be$string$2", "symbols": [{"literal":"l"}, {"literal":"i"}, {"literal":"g"}, {"literal":"g"}, {"literal":"e"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "be", "symbols": ["be$string$2"]},
+    {"name": "be$string$3", "symbols": [{"literal":"s"}, {"literal":"t"}, {"literal":"å"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "be", "symbols": ["be$string$3"]},
+    {"name": "move$string$1", "symbols": [{"literal":"f"}, {"literal":"l"}, {"literal":"y"}, {"literal":"t"}, {"literal":"t"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "move", "symbols": ["move$string$1"]},
+    {"name": "move$string$2", "symbols": [{"literal":"l"}, {"literal":"ä"}, {"literal":"g"}, {"literal":"g"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "move", "symbols": ["move$string$2"]},
+    {"name": "move$string$3", "symbols": [{"literal":"s"}, {"literal":"t"}, {"literal":"ä"}, {"literal":"l"}, {"literal":"l"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "move", "symbols": ["move$string$3"]},
+    {"name": "move$string$4", "symbols": [{"literal":"s"}, {"literal":"ä"}, {"literal":"t"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "move", "symbols": ["move$string$4"]},
+    {"name": "move$string$5", "symbols": [{"literal":"s"}, {"literal":"l"}, {"literal":"ä"}, {"literal":"p"}, {"literal":"p"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "move", "symbols": ["move$string$5"]},
+    {"name": "move$string$6", "symbols": [{"literal":"p"}, {"literal":"l"}, {"literal":"a"}, {"literal":"c"}, {"literal":"e"}, {"literal":"r"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "move", "symbols": ["move$string$6"]},
+    {"name": "remove", "symbols": ["take"]},
+    {"name": "remove$subexpression$1$string$1", "symbols": [{"literal":"t"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "remove$subexpression$1", "symbols": ["remove$subexpression$1$string$1"]},
+    {"name": "remove$subexpression$1$string$2", "symbols": [{"literal":"p"}, {"literal":"l"}, {"literal":"o"}, {"literal":"c"}, {"literal":"k"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "remove$subexpression$1", "symbols": ["remove$subexpression$1$string$2"]},
+    {"name": "remove$subexpression$2$string$1", "symbols": [{"literal":"b"}, {"literal":"o"}, {"literal":"r"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "remove$subexpression$2", "symbols": ["remove$subexpression$2$string$1"]},
+    {"name": "remove$subexpression$2$string$2", "symbols": [{"literal":"u"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "remove$subexpression$2", "symbols": ["remove$subexpression$2$string$2"]},
+    {"name": "remove", "symbols": ["remove$subexpression$1", "remove$subexpression$2"]},
+    {"name": "clear$string$1", "symbols": [{"literal":"t"}, {"literal":"ö"}, {"literal":"m"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "clear", "symbols": ["clear$string$1"]},
+    {"name": "clear$string$2", "symbols": [{"literal":"r"}, {"literal":"e"}, {"literal":"n"}, {"literal":"s"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "clear", "symbols": ["clear$string$2"]},
+    {"name": "make_sure$string$1", "symbols": [{"literal":"s"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "make_sure$string$2", "symbols": [{"literal":"t"}, {"literal":"i"}, {"literal":"l"}, {"literal":"l"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "make_sure$string$3", "symbols": [{"literal":"a"}, {"literal":"t"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "make_sure", "symbols": ["make_sure$string$1", "make_sure$string$2", "make_sure$string$3"]},
+    {"name": "swap$string$1", "symbols": [{"literal":"b"}, {"literal":"y"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "swap$ebnf$1$subexpression$1$string$1", "symbols": [{"literal":"p"}, {"literal":"l"}, {"literal":"a"}, {"literal":"t"}, {"literal":"s"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "swap$ebnf$1$subexpression$1$string$2", "symbols": [{"literal":"p"}, {"literal":"å"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "swap$ebnf$1$subexpression$1", "symbols": ["swap$ebnf$1$subexpression$1$string$1", "swap$ebnf$1$subexpression$1$string$2"]},
+    {"name": "swap$ebnf$1", "symbols": ["swap$ebnf$1$subexpression$1"], "postprocess": id},
+    {"name": "swap$ebnf$1", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "swap", "symbols": ["swap$string$1", "swap$ebnf$1"]},
+    {"name": "swap$string$2", "symbols": [{"literal":"v"}, {"literal":"ä"}, {"literal":"x"}, {"literal":"l"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "swap", "symbols": ["swap$string$2"]},
+    {"name": "stack$string$1", "symbols": [{"literal":"s"}, {"literal":"t"}, {"literal":"a"}, {"literal":"p"}, {"literal":"l"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "stack$ebnf$1$string$1", "symbols": [{"literal":"u"}, {"literal":"p"}, {"literal":"p"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "stack$ebnf$1", "symbols": ["stack$ebnf$1$string$1"], "postprocess": id},
+    {"name": "stack$ebnf$1", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "stack", "symbols": ["stack$string$1", "stack$ebnf$1"]},
+    {"name": "stack$string$2", "symbols": [{"literal":"t"}, {"literal":"r"}, {"literal":"a"}, {"literal":"v"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "stack$ebnf$2$string$1", "symbols": [{"literal":"u"}, {"literal":"p"}, {"literal":"p"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "stack$ebnf$2", "symbols": ["stack$ebnf$2$string$1"], "postprocess": id},
+    {"name": "stack$ebnf$2", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "stack", "symbols": ["stack$string$2", "stack$ebnf$2"]},
+    {"name": "unstack$subexpression$1$string$1", "symbols": [{"literal":"t"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "unstack$subexpression$1", "symbols": ["unstack$subexpression$1$string$1"]},
+    {"name": "unstack$subexpression$1$string$2", "symbols": [{"literal":"p"}, {"literal":"l"}, {"literal":"o"}, {"literal":"c"}, {"literal":"k"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "unstack$subexpression$1", "symbols": ["unstack$subexpression$1$string$2"]},
+    {"name": "unstack$string$1", "symbols": [{"literal":"i"}, {"literal":"s"}, {"literal":"ä"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "unstack", "symbols": ["unstack$subexpression$1", "unstack$string$1"]},
+    {"name": "nothing$subexpression$1$string$1", "symbols": [{"literal":"i"}, {"literal":"n"}, {"literal":"g"}, {"literal":"e"}, {"literal":"n"}, {"literal":"t"}, {"literal":"i"}, {"literal":"n"}, {"literal":"g"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "nothing$subexpression$1", "symbols": ["nothing$subexpression$1$string$1"]},
+    {"name": "nothing$subexpression$1$string$2", "symbols": [{"literal":"i"}, {"literal":"n"}, {"literal":"g"}, {"literal":"e"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "nothing$subexpression$1", "symbols": ["nothing$subexpression$1$string$2"]},
+    {"name": "nothing", "symbols": ["nothing$subexpression$1", "be"]},
+    {"name": "the$string$1", "symbols": [{"literal":"d"}, {"literal":"e"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "the", "symbols": ["the$string$1"]},
+    {"name": "the$string$2", "symbols": [{"literal":"d"}, {"literal":"e"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "the", "symbols": ["the$string$2"]},
+    {"name": "one$string$1", "symbols": [{"literal":"e"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "one", "symbols": ["one$string$1"]},
+    {"name": "one$string$2", "symbols": [{"literal":"e"}, {"literal":"t"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "one", "symbols": ["one$string$2"]},
+    {"name": "empty$string$1", "symbols": [{"literal":"t"}, {"literal":"o"}, {"literal":"m"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "empty", "symbols": ["empty$string$1"]},
+    {"name": "empty$string$2", "symbols": [{"literal":"t"}, {"literal":"o"}, {"literal":"m"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "empty", "symbols": ["empty$string$2"]},
+    {"name": "empty$string$3", "symbols": [{"literal":"t"}, {"literal":"o"}, {"literal":"m"}, {"literal":"m"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "empty", "symbols": ["empty$string$3"]},
+    {"name": "pronounSG", "symbols": ["the"]},
+    {"name": "pronounSG$string$1", "symbols": [{"literal":"d"}, {"literal":"ä"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "pronounSG", "symbols": ["the", "pronounSG$string$1"]},
+    {"name": "pronounSG$string$2", "symbols": [{"literal":"d"}, {"literal":"e"}, {"literal":"n"}, {"literal":"n"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "pronounSG", "symbols": ["pronounSG$string$2"]},
+    {"name": "pronounSG$string$3", "symbols": [{"literal":"d"}, {"literal":"e"}, {"literal":"t"}, {"literal":"t"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "pronounSG", "symbols": ["pronounSG$string$3"]},
+    {"name": "pronounPL$string$1", "symbols": [{"literal":"d"}, {"literal":"e"}, {"literal":"m"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "pronounPL", "symbols": ["pronounPL$string$1"]},
+    {"name": "pronounPL$string$2", "symbols": [{"literal":"d"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "pronounPL$string$3", "symbols": [{"literal":"d"}, {"literal":"ä"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "pronounPL", "symbols": ["pronounPL$string$2", "pronounPL$string$3"]},
+    {"name": "pronounPL$string$4", "symbols": [{"literal":"d"}, {"literal":"e"}, {"literal":"s"}, {"literal":"s"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "pronounPL", "symbols": ["pronounPL$string$4"]},
+    {"name": "that_is$string$1", "symbols": [{"literal":"s"}, {"literal":"o"}, {"literal":"m"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "that_is", "symbols": ["that_is$string$1", "be"]},
+    {"name": "that_are$string$1", "symbols": [{"literal":"s"}, {"literal":"o"}, {"literal":"m"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "that_are", "symbols": ["that_are$string$1", "be"]},
+    {"name": "first$string$1", "symbols": [{"literal":"f"}, {"literal":"ö"}, {"literal":"r"}, {"literal":"s"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "first", "symbols": ["first$string$1"]},
+    {"name": "then$string$1", "symbols": [{"literal":"o"}, {"literal":"c"}, {"literal":"h"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "then", "symbols": ["then$string$1"]},
+    {"name": "then$string$2", "symbols": [{"literal":"s"}, {"literal":"e"}, {"literal":"d"}, {"literal":"a"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "then", "symbols": ["then$string$2"]},
+    {"name": "then$string$3", "symbols": [{"literal":"s"}, {"literal":"e"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "then", "symbols": ["then$string$3"]},
+    {"name": "then$string$4", "symbols": [{"literal":"d"}, {"literal":"ä"}, {"literal":"r"}, {"literal":"e"}, {"literal":"f"}, {"literal":"t"}, {"literal":"e"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "then", "symbols": ["then$string$4"]},
+    {"name": "then$string$5", "symbols": [{"literal":"o"}, {"literal":"c"}, {"literal":"h"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "then$subexpression$1$string$1", "symbols": [{"literal":"s"}, {"literal":"e"}, {"literal":"d"}, {"literal":"a"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "then$subexpression$1", "symbols": ["then$subexpression$1$string$1"]},
+    {"name": "then$subexpression$1$string$2", "symbols": [{"literal":"s"}, {"literal":"e"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "then$subexpression$1", "symbols": ["then$subexpression$1$string$2"]},
+    {"name": "then$subexpression$1$string$3", "symbols": [{"literal":"d"}, {"literal":"ä"}, {"literal":"r"}, {"literal":"e"}, {"literal":"f"}, {"literal":"t"}, {"literal":"e"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "then$subexpression$1", "symbols": ["then$subexpression$1$string$3"]},
+    {"name": "then", "symbols": ["then$string$5", "then$subexpression$1"]},
+    {"name": "will_you$subexpression$1$string$1", "symbols": [{"literal":"k"}, {"literal":"a"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "will_you$subexpression$1", "symbols": ["will_you$subexpression$1$string$1"]},
+    {"name": "will_you$subexpression$1$string$2", "symbols": [{"literal":"s"}, {"literal":"k"}, {"literal":"u"}, {"literal":"l"}, {"literal":"l"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "will_you$subexpression$1", "symbols": ["will_you$subexpression$1$string$2"]},
+    {"name": "will_you$subexpression$1$string$3", "symbols": [{"literal":"v"}, {"literal":"i"}, {"literal":"l"}, {"literal":"l"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "will_you$subexpression$1", "symbols": ["will_you$subexpression$1$string$3"]},
+    {"name": "will_you$string$1", "symbols": [{"literal":"d"}, {"literal":"u"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "will_you", "symbols": ["will_you$subexpression$1", "will_you$string$1"]},
+    {"name": "please$string$1", "symbols": [{"literal":"s"}, {"literal":"n"}, {"literal":"ä"}, {"literal":"l"}, {"literal":"l"}, {"literal":"a"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "please", "symbols": ["please$string$1"]},
+    {"name": "please$string$2", "symbols": [{"literal":"t"}, {"literal":"a"}, {"literal":"c"}, {"literal":"k"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "please", "symbols": ["please$string$2"]}
+]
+  , ParserStart: "main"
+}
+if (typeof module !== 'undefined'&& typeof module.exports !== 'undefined') {
+   module.exports = grammar;
+} else {
+   window.grammarSv = grammar;
+}
+})();
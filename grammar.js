@@ -29,6 +29,53 @@ function R(obj) {
     return function(d){return updateObject(obj, d)}
 }
 
+// Wrapper function for building lists of parse results
+// Example: L(0, 2) gives the list [d[0]] followed by the elements of the list d[2]
+
+function L(first, rest) {
+    return function(d){return [d[first]].concat(rest == undefined ? [] : d[rest])}
+}
+
+// Wrapper function for parse results that do not depend on the children
+
+function C(value) {
+    return function(d){return value}
+}
+
+// Postprocess for counted entities, where the count comes with the quantifier
+
+function counted(d) {
+    return {quantifier:d[0].quantifier, count:d[0].count, object:d[1]};
+}
+
+// Postprocess for superlatives, which are added to a copy of the object
+
+function superlative(d) {
+    var object = {superlative:d[1]};
+    for (var key in d[2]) object[key] = d[2][key];
+    return {quantifier:"the", object:object};
+}
+
+// Postprocess for object descriptions, giving one object for every
+// combination of the alternative sizes and colors
+
+function describe(d) {
+    var objects = [];
+    (d[0] || [null]).forEach(function(size) {
+        (d[1] || [null]).forEach(function(color) {
+            objects.push({size:size, color:color, form:d[2]});
+        });
+    });
+    return objects;
+}
+
+// Postprocess for a list of alternative objects, which are only wrapped if
+// there are several of them
+
+function either(d) {
+    return d[0].length == 1 ? d[0][0] : {alternatives:d[0]};
+}
+
 var grammar = {
     ParserRules: [
     {"name": "main$ebnf$1", "symbols": ["will_you"], "postprocess": id},
@@ -38,29 +85,139 @@ var grammar = {
     {"name": "main$ebnf$3", "symbols": ["please"], "postprocess": id},
     {"name": "main$ebnf$3", "symbols": [], "postprocess": function(d) {return null;}},
     {"name": "main", "symbols": ["main$ebnf$1", "main$ebnf$2", "command", "main$ebnf$3"], "postprocess": R(2)},
-    {"name": "command", "symbols": ["take", "entity"], "postprocess": R({command:"take", entity:1})},
-    {"name": "command", "symbols": ["move", "it", "location"], "postprocess": R({command:"put", location:2})},
-    {"name": "command", "symbols": ["move", "entity", "location"], "postprocess": R({command:"move", entity:1, location:2})},
+    {"name": "main$ebnf$4", "symbols": ["will_you"], "postprocess": id},
+    {"name": "main$ebnf$4", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "main$ebnf$5", "symbols": ["please"], "postprocess": id},
+    {"name": "main$ebnf$5", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "main$ebnf$6", "symbols": ["first"], "postprocess": id},
+    {"name": "main$ebnf$6", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "main$ebnf$7", "symbols": ["please"], "postprocess": id},
+    {"name": "main$ebnf$7", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "main", "symbols": ["main$ebnf$4", "main$ebnf$5", "main$ebnf$6", "seqCommand", "then", "commands", "main$ebnf$7"], "postprocess": function(d) {return {command:"sequence", commands:L(3, 5)(d)}}},
+    {"name": "commands", "symbols": ["seqCommand"], "postprocess": L(0)},
+    {"name": "commands", "symbols": ["seqCommand", "then", "commands"], "postprocess": L(0, 2)},
+    {"name": "command", "symbols": ["seqCommand"], "postprocess": R(0)},
     {"name": "command", "symbols": ["entity"], "postprocess": R({command:"specification", entity:0})},
+    {"name": "seqCommand", "symbols": ["take", "entity"], "postprocess": R({command:"take", entity:1})},
+    {"name": "seqCommand", "symbols": ["move", "entity", "location"], "postprocess": R({command:"move", entity:1, location:2})},
+    {"name": "seqCommand", "symbols": ["remove", "entity", "from", "entity"], "postprocess": R({command:"remove", entity:1, location:{relation:2, entity:3}})},
+    {"name": "seqCommand", "symbols": ["clear", "entity"], "postprocess": R({command:"clear", location:{relation:"ontop", entity:1}})},
+    {"name": "seqCommand", "symbols": ["make_sure", "nothing", "location"], "postprocess": R({command:"clear", location:2})},
+    {"name": "seqCommand$subexpression$1$string$1", "symbols": [{"literal":"a"}, {"literal":"n"}, {"literal":"d"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "seqCommand$subexpression$1", "symbols": ["seqCommand$subexpression$1$string$1"]},
+    {"name": "seqCommand$subexpression$1$string$2", "symbols": [{"literal":"w"}, {"literal":"i"}, {"literal":"t"}, {"literal":"h"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "seqCommand$subexpression$1", "symbols": ["seqCommand$subexpression$1$string$2"]},
+    {"name": "seqCommand", "symbols": ["swap", "entity", "seqCommand$subexpression$1", "entity"], "postprocess": R({command:"swap", entity:1, entity2:3})},
+    {"name": "seqCommand", "symbols": ["stack", "entity"], "postprocess": R({command:"stack", entity:1})},
+    {"name": "seqCommand", "symbols": ["unstack", "entity"], "postprocess": R({command:"unstack", entity:1})},
+    {"name": "command", "symbols": ["where_is", "entity"], "postprocess": R({command:"where", entity:1})},
+    {"name": "command$ebnf$1", "symbols": ["are_there"], "postprocess": id},
+    {"name": "command$ebnf$1", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "command", "symbols": ["how_many", "objectPL", "command$ebnf$1"], "postprocess": R({command:"count", entity:{quantifier:"all", object:1}})},
+    {"name": "command", "symbols": ["how_many", "objectPL", "are", "location"], "postprocess": R({command:"count", entity:{quantifier:"all", object:{object:1, location:3}}})},
+    {"name": "command", "symbols": ["how_many", "objectPL", "are", "negLocation"], "postprocess": R({command:"count", entity:{quantifier:"all", object:{object:1, location:3}}})},
+    {"name": "command", "symbols": ["how_many", "objectPL", "are", "comparison"], "postprocess": R({command:"count", entity:{quantifier:"all", object:{object:1, comparison:3}}})},
+    {"name": "command", "symbols": ["is", "entity", "location"], "postprocess": R({command:"ask", entity:1, location:2})},
     {"name": "location", "symbols": ["relation", "entity"], "postprocess": R({relation:0, entity:1})},
+    {"name": "location$string$1", "symbols": [{"literal":"b"}, {"literal":"e"}, {"literal":"t"}, {"literal":"w"}, {"literal":"e"}, {"literal":"e"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "location$string$2", "symbols": [{"literal":"a"}, {"literal":"n"}, {"literal":"d"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "location", "symbols": ["location$string$1", "entity", "location$string$2", "entity"], "postprocess": R({relation:"between", entity:1, entity2:3})},
     {"name": "entity", "symbols": ["quantifierSG", "objectSG"], "postprocess": R({quantifier:0, object:1})},
     {"name": "entity", "symbols": ["quantifierPL", "objectPL"], "postprocess": R({quantifier:0, object:1})},
+    {"name": "entity", "symbols": ["countSG", "objectSG"], "postprocess": counted},
+    {"name": "entity", "symbols": ["countPL", "objectPL"], "postprocess": counted},
+    {"name": "entity$string$1", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "entity", "symbols": ["entity$string$1", "superlative", "objectSG"], "postprocess": superlative},
+    {"name": "entity", "symbols": ["column"], "postprocess": function(d) {return {quantifier:"the", object:{form:"column", column:d[0]}}}},
+    {"name": "entity$subexpression$1$string$1", "symbols": [{"literal":"e"}, {"literal":"v"}, {"literal":"e"}, {"literal":"r"}, {"literal":"y"}, {"literal":"t"}, {"literal":"h"}, {"literal":"i"}, {"literal":"n"}, {"literal":"g"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "entity$subexpression$1", "symbols": ["entity$subexpression$1$string$1"]},
+    {"name": "entity$subexpression$1$string$2", "symbols": [{"literal":"a"}, {"literal":"n"}, {"literal":"y"}, {"literal":"t"}, {"literal":"h"}, {"literal":"i"}, {"literal":"n"}, {"literal":"g"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "entity$subexpression$1", "symbols": ["entity$subexpression$1$string$2"]},
+    {"name": "entity", "symbols": ["entity$subexpression$1"], "postprocess": function(d) {return {quantifier:d[0][0] == "everything" ? "all" : "any", object:{size:null, color:null, form:"anyform"}}}},
+    {"name": "entity", "symbols": ["pronounSG"], "postprocess": C({quantifier:"the", object:{pronoun:"it"}})},
+    {"name": "entity", "symbols": ["pronounPL"], "postprocess": C({quantifier:"all", object:{pronoun:"them"}})},
     {"name": "objectSG$ebnf$1", "symbols": ["that_is"], "postprocess": id},
     {"name": "objectSG$ebnf$1", "symbols": [], "postprocess": function(d) {return null;}},
     {"name": "objectSG", "symbols": ["objectSG", "objectSG$ebnf$1", "location"], "postprocess": R({object:0, location:2})},
     {"name": "objectPL$ebnf$1", "symbols": ["that_are"], "postprocess": id},
     {"name": "objectPL$ebnf$1", "symbols": [], "postprocess": function(d) {return null;}},
     {"name": "objectPL", "symbols": ["objectPL", "objectPL$ebnf$1", "location"], "postprocess": R({object:0, location:2})},
-    {"name": "objectSG$ebnf$2", "symbols": ["size"], "postprocess": id},
+    {"name": "objectSG$ebnf$2", "symbols": ["that_is"], "postprocess": id},
     {"name": "objectSG$ebnf$2", "symbols": [], "postprocess": function(d) {return null;}},
-    {"name": "objectSG$ebnf$3", "symbols": ["color"], "postprocess": id},
-    {"name": "objectSG$ebnf$3", "symbols": [], "postprocess": function(d) {return null;}},
-    {"name": "objectSG", "symbols": ["objectSG$ebnf$2", "objectSG$ebnf$3", "formSG"], "postprocess": R({size:0, color:1, form:2})},
-    {"name": "objectPL$ebnf$2", "symbols": ["size"], "postprocess": id},
+    {"name": "objectSG", "symbols": ["objectSG", "objectSG$ebnf$2", "negLocation"], "postprocess": R({object:0, location:2})},
+    {"name": "objectPL$ebnf$2", "symbols": ["that_are"], "postprocess": id},
     {"name": "objectPL$ebnf$2", "symbols": [], "postprocess": function(d) {return null;}},
-    {"name": "objectPL$ebnf$3", "symbols": ["color"], "postprocess": id},
+    {"name": "objectPL", "symbols": ["objectPL", "objectPL$ebnf$2", "negLocation"], "postprocess": R({object:0, location:2})},
+    {"name": "objectSG$ebnf$3", "symbols": ["that_is"], "postprocess": id},
+    {"name": "objectSG$ebnf$3", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "objectSG", "symbols": ["objectSG", "objectSG$ebnf$3", "comparison"], "postprocess": R({object:0, comparison:2})},
+    {"name": "objectPL$ebnf$3", "symbols": ["that_are"], "postprocess": id},
     {"name": "objectPL$ebnf$3", "symbols": [], "postprocess": function(d) {return null;}},
-    {"name": "objectPL", "symbols": ["objectPL$ebnf$2", "objectPL$ebnf$3", "formPL"], "postprocess": R({size:0, color:1, form:2})},
+    {"name": "objectPL", "symbols": ["objectPL", "objectPL$ebnf$3", "comparison"], "postprocess": R({object:0, comparison:2})},
+    {"name": "comparison$string$1", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"a"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "comparison", "symbols": ["comparative", "comparison$string$1", "entity"], "postprocess": R({relation:0, entity:2})},
+    {"name": "comparison$ebnf$1$string$1", "symbols": [{"literal":"o"}, {"literal":"f"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "comparison$ebnf$1", "symbols": ["comparison$ebnf$1$string$1"], "postprocess": id},
+    {"name": "comparison$ebnf$1", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "comparison$string$2", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "comparison$string$3", "symbols": [{"literal":"s"}, {"literal":"a"}, {"literal":"m"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "comparison", "symbols": ["comparison$ebnf$1", "comparison$string$2", "comparison$string$3", "attribute"], "postprocess": R({relation:3})},
+    {"name": "comparison$ebnf$2$string$1", "symbols": [{"literal":"o"}, {"literal":"f"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "comparison$ebnf$2", "symbols": ["comparison$ebnf$2$string$1"], "postprocess": id},
+    {"name": "comparison$ebnf$2", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "comparison$string$4", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "comparison$string$5", "symbols": [{"literal":"s"}, {"literal":"a"}, {"literal":"m"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "comparison$string$6", "symbols": [{"literal":"a"}, {"literal":"s"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "comparison", "symbols": ["comparison$ebnf$2", "comparison$string$4", "comparison$string$5", "attribute", "comparison$string$6", "entity"], "postprocess": R({relation:3, entity:5})},
+    {"name": "negLocation$string$1", "symbols": [{"literal":"n"}, {"literal":"o"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "negLocation", "symbols": ["negLocation$string$1", "relation", "entity"], "postprocess": R({relation:1, entity:2, polarity:false})},
+    {"name": "negLocation$string$2", "symbols": [{"literal":"n"}, {"literal":"o"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "negLocation$string$3", "symbols": [{"literal":"b"}, {"literal":"e"}, {"literal":"t"}, {"literal":"w"}, {"literal":"e"}, {"literal":"e"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "negLocation$string$4", "symbols": [{"literal":"a"}, {"literal":"n"}, {"literal":"d"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "negLocation", "symbols": ["negLocation$string$2", "negLocation$string$3", "entity", "negLocation$string$4", "entity"], "postprocess": R({relation:"between", entity:2, entity2:4, polarity:false})},
+    {"name": "objectSG", "symbols": ["basicsSG"], "postprocess": either},
+    {"name": "objectPL", "symbols": ["basicsPL"], "postprocess": either},
+    {"name": "basicsSG", "symbols": ["basicSG"], "postprocess": R(0)},
+    {"name": "basicsSG$string$1", "symbols": [{"literal":"o"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "basicsSG$ebnf$1", "symbols": ["quantifierSG"], "postprocess": id},
+    {"name": "basicsSG$ebnf$1", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "basicsSG", "symbols": ["basicSG", "basicsSG$string$1", "basicsSG$ebnf$1", "basicsSG"], "postprocess": function(d) {return d[0].concat(d[3])}},
+    {"name": "basicsPL", "symbols": ["basicPL"], "postprocess": R(0)},
+    {"name": "basicsPL$string$1", "symbols": [{"literal":"o"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "basicsPL$ebnf$1", "symbols": ["quantifierPL"], "postprocess": id},
+    {"name": "basicsPL$ebnf$1", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "basicsPL", "symbols": ["basicPL", "basicsPL$string$1", "basicsPL$ebnf$1", "basicsPL"], "postprocess": function(d) {return d[0].concat(d[3])}},
+    {"name": "basicSG$ebnf$1", "symbols": ["sizes"], "postprocess": id},
+    {"name": "basicSG$ebnf$1", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "basicSG$ebnf$2", "symbols": ["colors"], "postprocess": id},
+    {"name": "basicSG$ebnf$2", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "basicSG", "symbols": ["basicSG$ebnf$1", "basicSG$ebnf$2", "formSG"], "postprocess": describe},
+    {"name": "basicPL$ebnf$1", "symbols": ["sizes"], "postprocess": id},
+    {"name": "basicPL$ebnf$1", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "basicPL$ebnf$2", "symbols": ["colors"], "postprocess": id},
+    {"name": "basicPL$ebnf$2", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "basicPL", "symbols": ["basicPL$ebnf$1", "basicPL$ebnf$2", "formPL"], "postprocess": describe},
+    {"name": "sizes", "symbols": ["size"], "postprocess": L(0)},
+    {"name": "sizes$string$1", "symbols": [{"literal":"o"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "sizes", "symbols": ["size", "sizes$string$1", "sizes"], "postprocess": L(0, 2)},
+    {"name": "colors", "symbols": ["color"], "postprocess": L(0)},
+    {"name": "colors$string$1", "symbols": [{"literal":"o"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "colors", "symbols": ["color", "colors$string$1", "colors"], "postprocess": L(0, 2)},
+    {"name": "objectSG$ebnf$4$string$1", "symbols": [{"literal":"e"}, {"literal":"m"}, {"literal":"p"}, {"literal":"t"}, {"literal":"y"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "objectSG$ebnf$4", "symbols": ["objectSG$ebnf$4$string$1"], "postprocess": id},
+    {"name": "objectSG$ebnf$4", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "objectSG", "symbols": ["objectSG$ebnf$4", "columnSG"], "postprocess": function(d) {return {form:d[0] ? "emptyspot" : "column"}}},
+    {"name": "objectSG$string$1", "symbols": [{"literal":"e"}, {"literal":"m"}, {"literal":"p"}, {"literal":"t"}, {"literal":"y"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "objectSG", "symbols": ["objectSG$string$1", "spotSG"], "postprocess": C({form:"emptyspot"})},
+    {"name": "objectPL$ebnf$4$string$1", "symbols": [{"literal":"e"}, {"literal":"m"}, {"literal":"p"}, {"literal":"t"}, {"literal":"y"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "objectPL$ebnf$4", "symbols": ["objectPL$ebnf$4$string$1"], "postprocess": id},
+    {"name": "objectPL$ebnf$4", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "objectPL", "symbols": ["objectPL$ebnf$4", "columnPL"], "postprocess": function(d) {return {form:d[0] ? "emptyspot" : "column"}}},
+    {"name": "objectPL$string$1", "symbols": [{"literal":"e"}, {"literal":"m"}, {"literal":"p"}, {"literal":"t"}, {"literal":"y"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "objectPL", "symbols": ["objectPL$string$1", "spotPL"], "postprocess": C({form:"emptyspot"})},
+    {"name": "column", "symbols": ["columnSG", "number"], "postprocess": function(d) {return d[1] - 1}},
+    {"name": "column$string$1", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "column", "symbols": ["column$string$1", "ordinal", "columnSG"], "postprocess": function(d) {return d[1] - 1}},
     {"name": "quantifierSG$subexpression$1$string$1", "symbols": [{"literal":"a"}, {"literal":"n"}, {"literal":"y"}], "postprocess": function joiner(d) {return d.join('');}},
     {"name": "quantifierSG$subexpression$1", "symbols": ["quantifierSG$subexpression$1$string$1"]},
     {"name": "quantifierSG$subexpression$1$string$2", "symbols": [{"literal":"a"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
@@ -72,10 +229,51 @@ var grammar = {
     {"name": "quantifierSG", "symbols": ["quantifierSG$subexpression$2"], "postprocess": R("the")},
     {"name": "quantifierSG$subexpression$3$string$1", "symbols": [{"literal":"e"}, {"literal":"v"}, {"literal":"e"}, {"literal":"r"}, {"literal":"y"}], "postprocess": function joiner(d) {return d.join('');}},
     {"name": "quantifierSG$subexpression$3", "symbols": ["quantifierSG$subexpression$3$string$1"]},
+    {"name": "quantifierSG$subexpression$3$string$2", "symbols": [{"literal":"e"}, {"literal":"a"}, {"literal":"c"}, {"literal":"h"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "quantifierSG$subexpression$3", "symbols": ["quantifierSG$subexpression$3$string$2"]},
     {"name": "quantifierSG", "symbols": ["quantifierSG$subexpression$3"], "postprocess": R("all")},
     {"name": "quantifierPL$subexpression$1$string$1", "symbols": [{"literal":"a"}, {"literal":"l"}, {"literal":"l"}], "postprocess": function joiner(d) {return d.join('');}},
     {"name": "quantifierPL$subexpression$1", "symbols": ["quantifierPL$subexpression$1$string$1"]},
+    {"name": "quantifierPL$subexpression$1$string$2", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "quantifierPL$subexpression$1", "symbols": ["quantifierPL$subexpression$1$string$2"]},
     {"name": "quantifierPL", "symbols": ["quantifierPL$subexpression$1"], "postprocess": R("all")},
+    {"name": "countSG$string$1", "symbols": [{"literal":"o"}, {"literal":"n"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "countSG", "symbols": ["countSG$string$1"], "postprocess": C({quantifier:"atleast", count:1})},
+    {"name": "countSG$string$2", "symbols": [{"literal":"e"}, {"literal":"x"}, {"literal":"a"}, {"literal":"c"}, {"literal":"t"}, {"literal":"l"}, {"literal":"y"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "countSG$string$3", "symbols": [{"literal":"o"}, {"literal":"n"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "countSG", "symbols": ["countSG$string$2", "countSG$string$3"], "postprocess": C({quantifier:"exactly", count:1})},
+    {"name": "countSG$string$4", "symbols": [{"literal":"a"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "countSG$string$5", "symbols": [{"literal":"m"}, {"literal":"o"}, {"literal":"s"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "countSG$string$6", "symbols": [{"literal":"o"}, {"literal":"n"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "countSG", "symbols": ["countSG$string$4", "countSG$string$5", "countSG$string$6"], "postprocess": C({quantifier:"atmost", count:1})},
+    {"name": "countPL", "symbols": ["number"], "postprocess": R({quantifier:"atleast", count:0})},
+    {"name": "countPL$string$1", "symbols": [{"literal":"a"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "countPL$string$2", "symbols": [{"literal":"l"}, {"literal":"e"}, {"literal":"a"}, {"literal":"s"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "countPL", "symbols": ["countPL$string$1", "countPL$string$2", "number"], "postprocess": R({quantifier:"atleast", count:2})},
+    {"name": "countPL$string$3", "symbols": [{"literal":"a"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "countPL$string$4", "symbols": [{"literal":"m"}, {"literal":"o"}, {"literal":"s"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "countPL", "symbols": ["countPL$string$3", "countPL$string$4", "number"], "postprocess": R({quantifier:"atmost", count:2})},
+    {"name": "countPL$string$5", "symbols": [{"literal":"e"}, {"literal":"x"}, {"literal":"a"}, {"literal":"c"}, {"literal":"t"}, {"literal":"l"}, {"literal":"y"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "countPL", "symbols": ["countPL$string$5", "number"], "postprocess": R({quantifier:"exactly", count:1})},
+    {"name": "number", "symbols": [/[0-9]/], "postprocess": function(d) {return parseInt(d[0])}},
+    {"name": "number$string$1", "symbols": [{"literal":"t"}, {"literal":"w"}, {"literal":"o"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "number", "symbols": ["number$string$1"], "postprocess": C(2)},
+    {"name": "number$string$2", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"r"}, {"literal":"e"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "number", "symbols": ["number$string$2"], "postprocess": C(3)},
+    {"name": "number$string$3", "symbols": [{"literal":"f"}, {"literal":"o"}, {"literal":"u"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "number", "symbols": ["number$string$3"], "postprocess": C(4)},
+    {"name": "number$string$4", "symbols": [{"literal":"f"}, {"literal":"i"}, {"literal":"v"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "number", "symbols": ["number$string$4"], "postprocess": C(5)},
+    {"name": "number$string$5", "symbols": [{"literal":"s"}, {"literal":"i"}, {"literal":"x"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "number", "symbols": ["number$string$5"], "postprocess": C(6)},
+    {"name": "number$string$6", "symbols": [{"literal":"s"}, {"literal":"e"}, {"literal":"v"}, {"literal":"e"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "number", "symbols": ["number$string$6"], "postprocess": C(7)},
+    {"name": "number$string$7", "symbols": [{"literal":"e"}, {"literal":"i"}, {"literal":"g"}, {"literal":"h"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "number", "symbols": ["number$string$7"], "postprocess": C(8)},
+    {"name": "number$string$8", "symbols": [{"literal":"n"}, {"literal":"i"}, {"literal":"n"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "number", "symbols": ["number$string$8"], "postprocess": C(9)},
+    {"name": "number$string$9", "symbols": [{"literal":"t"}, {"literal":"e"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "number", "symbols": ["number$string$9"], "postprocess": C(10)},
     {"name": "relation$subexpression$1$string$1", "symbols": [{"literal":"l"}, {"literal":"e"}, {"literal":"f"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
     {"name": "relation$subexpression$1$string$2", "symbols": [{"literal":"o"}, {"literal":"f"}], "postprocess": function joiner(d) {return d.join('');}},
     {"name": "relation$subexpression$1", "symbols": ["relation$subexpression$1$string$1", "relation$subexpression$1$string$2"]},
@@ -122,6 +320,116 @@ var grammar = {
     {"name": "relation$subexpression$7$string$1", "symbols": [{"literal":"a"}, {"literal":"b"}, {"literal":"o"}, {"literal":"v"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
     {"name": "relation$subexpression$7", "symbols": ["relation$subexpression$7$string$1"]},
     {"name": "relation", "symbols": ["relation$subexpression$7"], "postprocess": R("above")},
+    {"name": "from$subexpression$1$string$1", "symbols": [{"literal":"o"}, {"literal":"u"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "from$subexpression$1$string$2", "symbols": [{"literal":"o"}, {"literal":"f"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "from$subexpression$1", "symbols": ["from$subexpression$1$string$1", "from$subexpression$1$string$2"]},
+    {"name": "from$subexpression$1$string$3", "symbols": [{"literal":"f"}, {"literal":"r"}, {"literal":"o"}, {"literal":"m"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "from$subexpression$1", "symbols": ["from$subexpression$1$string$3"]},
+    {"name": "from", "symbols": ["from$subexpression$1"], "postprocess": R("inside")},
+    {"name": "from$subexpression$2$string$1", "symbols": [{"literal":"o"}, {"literal":"f"}, {"literal":"f"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "from$subexpression$2", "symbols": ["from$subexpression$2$string$1"]},
+    {"name": "from$subexpression$2$string$2", "symbols": [{"literal":"o"}, {"literal":"f"}, {"literal":"f"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "from$subexpression$2$string$3", "symbols": [{"literal":"o"}, {"literal":"f"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "from$subexpression$2", "symbols": ["from$subexpression$2$string$2", "from$subexpression$2$string$3"]},
+    {"name": "from", "symbols": ["from$subexpression$2"], "postprocess": R("ontop")},
+    {"name": "superlative$subexpression$1$string$1", "symbols": [{"literal":"l"}, {"literal":"e"}, {"literal":"f"}, {"literal":"t"}, {"literal":"m"}, {"literal":"o"}, {"literal":"s"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "superlative$subexpression$1", "symbols": ["superlative$subexpression$1$string$1"]},
+    {"name": "superlative", "symbols": ["superlative$subexpression$1"], "postprocess": R("leftmost")},
+    {"name": "superlative$subexpression$2$string$1", "symbols": [{"literal":"r"}, {"literal":"i"}, {"literal":"g"}, {"literal":"h"}, {"literal":"t"}, {"literal":"m"}, {"literal":"o"}, {"literal":"s"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "superlative$subexpression$2", "symbols": ["superlative$subexpression$2$string$1"]},
+    {"name": "superlative", "symbols": ["superlative$subexpression$2"], "postprocess": R("rightmost")},
+    {"name": "superlative$subexpression$3$string$1", "symbols": [{"literal":"h"}, {"literal":"i"}, {"literal":"g"}, {"literal":"h"}, {"literal":"e"}, {"literal":"s"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "superlative$subexpression$3", "symbols": ["superlative$subexpression$3$string$1"]},
+    {"name": "superlative$subexpression$3$string$2", "symbols": [{"literal":"u"}, {"literal":"p"}, {"literal":"p"}, {"literal":"e"}, {"literal":"r"}, {"literal":"m"}, {"literal":"o"}, {"literal":"s"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "superlative$subexpression$3", "symbols": ["superlative$subexpression$3$string$2"]},
+    {"name": "superlative", "symbols": ["superlative$subexpression$3"], "postprocess": R("highest")},
+    {"name": "superlative$subexpression$4$string$1", "symbols": [{"literal":"l"}, {"literal":"o"}, {"literal":"w"}, {"literal":"e"}, {"literal":"s"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "superlative$subexpression$4", "symbols": ["superlative$subexpression$4$string$1"]},
+    {"name": "superlative$subexpression$4$string$2", "symbols": [{"literal":"l"}, {"literal":"o"}, {"literal":"w"}, {"literal":"e"}, {"literal":"r"}, {"literal":"m"}, {"literal":"o"}, {"literal":"s"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "superlative$subexpression$4", "symbols": ["superlative$subexpression$4$string$2"]},
+    {"name": "superlative", "symbols": ["superlative$subexpression$4"], "postprocess": R("lowest")},
+    {"name": "superlative$subexpression$5$string$1", "symbols": [{"literal":"t"}, {"literal":"o"}, {"literal":"p"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "superlative$subexpression$5", "symbols": ["superlative$subexpression$5$string$1"]},
+    {"name": "superlative$subexpression$5$string$2", "symbols": [{"literal":"t"}, {"literal":"o"}, {"literal":"p"}, {"literal":"m"}, {"literal":"o"}, {"literal":"s"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "superlative$subexpression$5", "symbols": ["superlative$subexpression$5$string$2"]},
+    {"name": "superlative", "symbols": ["superlative$subexpression$5"], "postprocess": R("top")},
+    {"name": "superlative$subexpression$6$string$1", "symbols": [{"literal":"b"}, {"literal":"o"}, {"literal":"t"}, {"literal":"t"}, {"literal":"o"}, {"literal":"m"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "superlative$subexpression$6", "symbols": ["superlative$subexpression$6$string$1"]},
+    {"name": "superlative$subexpression$6$string$2", "symbols": [{"literal":"b"}, {"literal":"o"}, {"literal":"t"}, {"literal":"t"}, {"literal":"o"}, {"literal":"m"}, {"literal":"m"}, {"literal":"o"}, {"literal":"s"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "superlative$subexpression$6", "symbols": ["superlative$subexpression$6$string$2"]},
+    {"name": "superlative", "symbols": ["superlative$subexpression$6"], "postprocess": R("bottom")},
+    {"name": "superlative$subexpression$7$string$1", "symbols": [{"literal":"l"}, {"literal":"a"}, {"literal":"r"}, {"literal":"g"}, {"literal":"e"}, {"literal":"s"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "superlative$subexpression$7", "symbols": ["superlative$subexpression$7$string$1"]},
+    {"name": "superlative$subexpression$7$string$2", "symbols": [{"literal":"b"}, {"literal":"i"}, {"literal":"g"}, {"literal":"g"}, {"literal":"e"}, {"literal":"s"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "superlative$subexpression$7", "symbols": ["superlative$subexpression$7$string$2"]},
+    {"name": "superlative", "symbols": ["superlative$subexpression$7"], "postprocess": R("largest")},
+    {"name": "superlative$subexpression$8$string$1", "symbols": [{"literal":"s"}, {"literal":"m"}, {"literal":"a"}, {"literal":"l"}, {"literal":"l"}, {"literal":"e"}, {"literal":"s"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "superlative$subexpression$8", "symbols": ["superlative$subexpression$8$string$1"]},
+    {"name": "superlative$subexpression$8$string$2", "symbols": [{"literal":"t"}, {"literal":"i"}, {"literal":"n"}, {"literal":"i"}, {"literal":"e"}, {"literal":"s"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "superlative$subexpression$8", "symbols": ["superlative$subexpression$8$string$2"]},
+    {"name": "superlative", "symbols": ["superlative$subexpression$8"], "postprocess": R("smallest")},
+    {"name": "comparative$subexpression$1$string$1", "symbols": [{"literal":"s"}, {"literal":"m"}, {"literal":"a"}, {"literal":"l"}, {"literal":"l"}, {"literal":"e"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "comparative$subexpression$1", "symbols": ["comparative$subexpression$1$string$1"]},
+    {"name": "comparative$subexpression$1$string$2", "symbols": [{"literal":"t"}, {"literal":"i"}, {"literal":"n"}, {"literal":"i"}, {"literal":"e"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "comparative$subexpression$1", "symbols": ["comparative$subexpression$1$string$2"]},
+    {"name": "comparative", "symbols": ["comparative$subexpression$1"], "postprocess": R("smaller")},
+    {"name": "comparative$subexpression$2$string$1", "symbols": [{"literal":"l"}, {"literal":"a"}, {"literal":"r"}, {"literal":"g"}, {"literal":"e"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "comparative$subexpression$2", "symbols": ["comparative$subexpression$2$string$1"]},
+    {"name": "comparative$subexpression$2$string$2", "symbols": [{"literal":"b"}, {"literal":"i"}, {"literal":"g"}, {"literal":"g"}, {"literal":"e"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "comparative$subexpression$2", "symbols": ["comparative$subexpression$2$string$2"]},
+    {"name": "comparative", "symbols": ["comparative$subexpression$2"], "postprocess": R("larger")},
+    {"name": "attribute$subexpression$1$string$1", "symbols": [{"literal":"c"}, {"literal":"o"}, {"literal":"l"}, {"literal":"o"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "attribute$subexpression$1", "symbols": ["attribute$subexpression$1$string$1"]},
+    {"name": "attribute$subexpression$1$string$2", "symbols": [{"literal":"c"}, {"literal":"o"}, {"literal":"l"}, {"literal":"o"}, {"literal":"u"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "attribute$subexpression$1", "symbols": ["attribute$subexpression$1$string$2"]},
+    {"name": "attribute", "symbols": ["attribute$subexpression$1"], "postprocess": R("samecolor")},
+    {"name": "attribute$string$1", "symbols": [{"literal":"s"}, {"literal":"i"}, {"literal":"z"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "attribute", "symbols": ["attribute$string$1"], "postprocess": R("samesize")},
+    {"name": "attribute$subexpression$2$string$1", "symbols": [{"literal":"s"}, {"literal":"h"}, {"literal":"a"}, {"literal":"p"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "attribute$subexpression$2", "symbols": ["attribute$subexpression$2$string$1"]},
+    {"name": "attribute$subexpression$2$string$2", "symbols": [{"literal":"f"}, {"literal":"o"}, {"literal":"r"}, {"literal":"m"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "attribute$subexpression$2", "symbols": ["attribute$subexpression$2$string$2"]},
+    {"name": "attribute", "symbols": ["attribute$subexpression$2"], "postprocess": R("sameform")},
+    {"name": "ordinal$string$1", "symbols": [{"literal":"f"}, {"literal":"i"}, {"literal":"r"}, {"literal":"s"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "ordinal", "symbols": ["ordinal$string$1"], "postprocess": C(1)},
+    {"name": "ordinal$string$2", "symbols": [{"literal":"s"}, {"literal":"e"}, {"literal":"c"}, {"literal":"o"}, {"literal":"n"}, {"literal":"d"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "ordinal", "symbols": ["ordinal$string$2"], "postprocess": C(2)},
+    {"name": "ordinal$string$3", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"i"}, {"literal":"r"}, {"literal":"d"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "ordinal", "symbols": ["ordinal$string$3"], "postprocess": C(3)},
+    {"name": "ordinal$string$4", "symbols": [{"literal":"f"}, {"literal":"o"}, {"literal":"u"}, {"literal":"r"}, {"literal":"t"}, {"literal":"h"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "ordinal", "symbols": ["ordinal$string$4"], "postprocess": C(4)},
+    {"name": "ordinal$string$5", "symbols": [{"literal":"f"}, {"literal":"i"}, {"literal":"f"}, {"literal":"t"}, {"literal":"h"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "ordinal", "symbols": ["ordinal$string$5"], "postprocess": C(5)},
+    {"name": "ordinal$string$6", "symbols": [{"literal":"s"}, {"literal":"i"}, {"literal":"x"}, {"literal":"t"}, {"literal":"h"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "ordinal", "symbols": ["ordinal$string$6"], "postprocess": C(6)},
+    {"name": "ordinal$string$7", "symbols": [{"literal":"s"}, {"literal":"e"}, {"literal":"v"}, {"literal":"e"}, {"literal":"n"}, {"literal":"t"}, {"literal":"h"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "ordinal", "symbols": ["ordinal$string$7"], "postprocess": C(7)},
+    {"name": "ordinal$string$8", "symbols": [{"literal":"e"}, {"literal":"i"}, {"literal":"g"}, {"literal":"h"}, {"literal":"t"}, {"literal":"h"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "ordinal", "symbols": ["ordinal$string$8"], "postprocess": C(8)},
+    {"name": "ordinal$string$9", "symbols": [{"literal":"n"}, {"literal":"i"}, {"literal":"n"}, {"literal":"t"}, {"literal":"h"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "ordinal", "symbols": ["ordinal$string$9"], "postprocess": C(9)},
+    {"name": "ordinal$string$10", "symbols": [{"literal":"t"}, {"literal":"e"}, {"literal":"n"}, {"literal":"t"}, {"literal":"h"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "ordinal", "symbols": ["ordinal$string$10"], "postprocess": C(10)},
+    {"name": "columnSG$subexpression$1$string$1", "symbols": [{"literal":"c"}, {"literal":"o"}, {"literal":"l"}, {"literal":"u"}, {"literal":"m"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "columnSG$subexpression$1", "symbols": ["columnSG$subexpression$1$string$1"]},
+    {"name": "columnSG$subexpression$1$string$2", "symbols": [{"literal":"s"}, {"literal":"t"}, {"literal":"a"}, {"literal":"c"}, {"literal":"k"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "columnSG$subexpression$1", "symbols": ["columnSG$subexpression$1$string$2"]},
+    {"name": "columnSG", "symbols": ["columnSG$subexpression$1"], "postprocess": R("column")},
+    {"name": "columnPL$subexpression$1$string$1", "symbols": [{"literal":"c"}, {"literal":"o"}, {"literal":"l"}, {"literal":"u"}, {"literal":"m"}, {"literal":"n"}, {"literal":"s"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "columnPL$subexpression$1", "symbols": ["columnPL$subexpression$1$string$1"]},
+    {"name": "columnPL$subexpression$1$string$2", "symbols": [{"literal":"s"}, {"literal":"t"}, {"literal":"a"}, {"literal":"c"}, {"literal":"k"}, {"literal":"s"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "columnPL$subexpression$1", "symbols": ["columnPL$subexpression$1$string$2"]},
+    {"name": "columnPL", "symbols": ["columnPL$subexpression$1"], "postprocess": R("column")},
+    {"name": "spotSG$subexpression$1$string$1", "symbols": [{"literal":"s"}, {"literal":"p"}, {"literal":"o"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "spotSG$subexpression$1", "symbols": ["spotSG$subexpression$1$string$1"]},
+    {"name": "spotSG$subexpression$1$string$2", "symbols": [{"literal":"p"}, {"literal":"l"}, {"literal":"a"}, {"literal":"c"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "spotSG$subexpression$1", "symbols": ["spotSG$subexpression$1$string$2"]},
+    {"name": "spotSG", "symbols": ["spotSG$subexpression$1"], "postprocess": R("spot")},
+    {"name": "spotPL$subexpression$1$string$1", "symbols": [{"literal":"s"}, {"literal":"p"}, {"literal":"o"}, {"literal":"t"}, {"literal":"s"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "spotPL$subexpression$1", "symbols": ["spotPL$subexpression$1$string$1"]},
+    {"name": "spotPL$subexpression$1$string$2", "symbols": [{"literal":"p"}, {"literal":"l"}, {"literal":"a"}, {"literal":"c"}, {"literal":"e"}, {"literal":"s"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "spotPL$subexpression$1", "symbols": ["spotPL$subexpression$1$string$2"]},
+    {"name": "spotPL", "symbols": ["spotPL$subexpression$1"], "postprocess": R("spot")},
     {"name": "size$subexpression$1$string$1", "symbols": [{"literal":"s"}, {"literal":"m"}, {"literal":"a"}, {"literal":"l"}, {"literal":"l"}], "postprocess": function joiner(d) {return d.join('');}},
     {"name": "size$subexpression$1", "symbols": ["size$subexpression$1$string$1"]},
     {"name": "size$subexpression$1$string$2", "symbols": [{"literal":"t"}, {"literal":"i"}, {"literal":"n"}, {"literal":"y"}], "postprocess": function joiner(d) {return d.join('');}},
@@ -144,33 +452,52 @@ var grammar = {
     {"name": "color", "symbols": ["color$string$5"], "postprocess": R("yellow")},
     {"name": "color$string$6", "symbols": [{"literal":"r"}, {"literal":"e"}, {"literal":"d"}], "postprocess": function joiner(d) {return d.join('');}},
     {"name": "color", "symbols": ["color$string$6"], "postprocess": R("red")},
-    {"name": "formSG", "symbols": ["form"], "postprocess": R(0)},
-    {"name": "formPL", "symbols": ["form", {"literal":"s"}], "postprocess": R(0)},
-    {"name": "formSG$string$1", "symbols": [{"literal":"b"}, {"literal":"o"}, {"literal":"x"}], "postprocess": function joiner(d) {return d.join('');}},
-    {"name": "formSG", "symbols": ["formSG$string$1"], "postprocess": R("box")},
-    {"name": "formPL$string$1", "symbols": [{"literal":"b"}, {"literal":"o"}, {"literal":"x"}, {"literal":"e"}, {"literal":"s"}], "postprocess": function joiner(d) {return d.join('');}},
-    {"name": "formPL", "symbols": ["formPL$string$1"], "postprocess": R("box")},
-    {"name": "form$subexpression$1$string$1", "symbols": [{"literal":"o"}, {"literal":"b"}, {"literal":"j"}, {"literal":"e"}, {"literal":"c"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
-    {"name": "form$subexpression$1", "symbols": ["form$subexpression$1$string$1"]},
-    {"name": "form$subexpression$1$string$2", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"i"}, {"literal":"n"}, {"literal":"g"}], "postprocess": function joiner(d) {return d.join('');}},
-    {"name": "form$subexpression$1", "symbols": ["form$subexpression$1$string$2"]},
-    {"name": "form$subexpression$1$string$3", "symbols": [{"literal":"f"}, {"literal":"o"}, {"literal":"r"}, {"literal":"m"}], "postprocess": function joiner(d) {return d.join('');}},
-    {"name": "form$subexpression$1", "symbols": ["form$subexpression$1$string$3"]},
-    {"name": "form$subexpression$1$string$4", "symbols": [{"literal":"o"}, {"literal":"n"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
-    {"name": "form$subexpression$1", "symbols": ["form$subexpression$1$string$4"]},
-    {"name": "form", "symbols": ["form$subexpression$1"], "postprocess": R("anyform")},
-    {"name": "form$string$1", "symbols": [{"literal":"b"}, {"literal":"r"}, {"literal":"i"}, {"literal":"c"}, {"literal":"k"}], "postprocess": function joiner(d) {return d.join('');}},
-    {"name": "form", "symbols": ["form$string$1"], "postprocess": R("brick")},
-    {"name": "form$string$2", "symbols": [{"literal":"p"}, {"literal":"l"}, {"literal":"a"}, {"literal":"n"}, {"literal":"k"}], "postprocess": function joiner(d) {return d.join('');}},
-    {"name": "form", "symbols": ["form$string$2"], "postprocess": R("plank")},
-    {"name": "form$string$3", "symbols": [{"literal":"b"}, {"literal":"a"}, {"literal":"l"}, {"literal":"l"}], "postprocess": function joiner(d) {return d.join('');}},
-    {"name": "form", "symbols": ["form$string$3"], "postprocess": R("ball")},
-    {"name": "form$string$4", "symbols": [{"literal":"p"}, {"literal":"y"}, {"literal":"r"}, {"literal":"a"}, {"literal":"m"}, {"literal":"i"}, {"literal":"d"}], "postprocess": function joiner(d) {return d.join('');}},
-    {"name": "form", "symbols": ["form$string$4"], "postprocess": R("pyramid")},
-    {"name": "form$string$5", "symbols": [{"literal":"t"}, {"literal":"a"}, {"literal":"b"}, {"literal":"l"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
-    {"name": "form", "symbols": ["form$string$5"], "postprocess": R("table")},
-    {"name": "form$string$6", "symbols": [{"literal":"f"}, {"literal":"l"}, {"literal":"o"}, {"literal":"o"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
-    {"name": "form", "symbols": ["form$string$6"], "postprocess": R("floor")},
+    {"name": "formSG$subexpression$1$string$1", "symbols": [{"literal":"o"}, {"literal":"b"}, {"literal":"j"}, {"literal":"e"}, {"literal":"c"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formSG$subexpression$1", "symbols": ["formSG$subexpression$1$string$1"]},
+    {"name": "formSG$subexpression$1$string$2", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"i"}, {"literal":"n"}, {"literal":"g"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formSG$subexpression$1", "symbols": ["formSG$subexpression$1$string$2"]},
+    {"name": "formSG$subexpression$1$string$3", "symbols": [{"literal":"f"}, {"literal":"o"}, {"literal":"r"}, {"literal":"m"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formSG$subexpression$1", "symbols": ["formSG$subexpression$1$string$3"]},
+    {"name": "formSG$subexpression$1$string$4", "symbols": [{"literal":"o"}, {"literal":"n"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formSG$subexpression$1", "symbols": ["formSG$subexpression$1$string$4"]},
+    {"name": "formSG", "symbols": ["formSG$subexpression$1"], "postprocess": R("anyform")},
+    {"name": "formPL$subexpression$1$string$1", "symbols": [{"literal":"o"}, {"literal":"b"}, {"literal":"j"}, {"literal":"e"}, {"literal":"c"}, {"literal":"t"}, {"literal":"s"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formPL$subexpression$1", "symbols": ["formPL$subexpression$1$string$1"]},
+    {"name": "formPL$subexpression$1$string$2", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"i"}, {"literal":"n"}, {"literal":"g"}, {"literal":"s"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formPL$subexpression$1", "symbols": ["formPL$subexpression$1$string$2"]},
+    {"name": "formPL$subexpression$1$string$3", "symbols": [{"literal":"f"}, {"literal":"o"}, {"literal":"r"}, {"literal":"m"}, {"literal":"s"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formPL$subexpression$1", "symbols": ["formPL$subexpression$1$string$3"]},
+    {"name": "formPL$subexpression$1$string$4", "symbols": [{"literal":"o"}, {"literal":"n"}, {"literal":"e"}, {"literal":"s"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formPL$subexpression$1", "symbols": ["formPL$subexpression$1$string$4"]},
+    {"name": "formPL", "symbols": ["formPL$subexpression$1"], "postprocess": R("anyform")},
+    {"name": "formSG$string$1", "symbols": [{"literal":"b"}, {"literal":"r"}, {"literal":"i"}, {"literal":"c"}, {"literal":"k"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formSG", "symbols": ["formSG$string$1"], "postprocess": R("brick")},
+    {"name": "formPL$string$1", "symbols": [{"literal":"b"}, {"literal":"r"}, {"literal":"i"}, {"literal":"c"}, {"literal":"k"}, {"literal":"s"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formPL", "symbols": ["formPL$string$1"], "postprocess": R("brick")},
+    {"name": "formSG$string$2", "symbols": [{"literal":"p"}, {"literal":"l"}, {"literal":"a"}, {"literal":"n"}, {"literal":"k"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formSG", "symbols": ["formSG$string$2"], "postprocess": R("plank")},
+    {"name": "formPL$string$2", "symbols": [{"literal":"p"}, {"literal":"l"}, {"literal":"a"}, {"literal":"n"}, {"literal":"k"}, {"literal":"s"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formPL", "symbols": ["formPL$string$2"], "postprocess": R("plank")},
+    {"name": "formSG$string$3", "symbols": [{"literal":"b"}, {"literal":"a"}, {"literal":"l"}, {"literal":"l"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formSG", "symbols": ["formSG$string$3"], "postprocess": R("ball")},
+    {"name": "formPL$string$3", "symbols": [{"literal":"b"}, {"literal":"a"}, {"literal":"l"}, {"literal":"l"}, {"literal":"s"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formPL", "symbols": ["formPL$string$3"], "postprocess": R("ball")},
+    {"name": "formSG$string$4", "symbols": [{"literal":"p"}, {"literal":"y"}, {"literal":"r"}, {"literal":"a"}, {"literal":"m"}, {"literal":"i"}, {"literal":"d"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formSG", "symbols": ["formSG$string$4"], "postprocess": R("pyramid")},
+    {"name": "formPL$string$4", "symbols": [{"literal":"p"}, {"literal":"y"}, {"literal":"r"}, {"literal":"a"}, {"literal":"m"}, {"literal":"i"}, {"literal":"d"}, {"literal":"s"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formPL", "symbols": ["formPL$string$4"], "postprocess": R("pyramid")},
+    {"name": "formSG$string$5", "symbols": [{"literal":"t"}, {"literal":"a"}, {"literal":"b"}, {"literal":"l"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formSG", "symbols": ["formSG$string$5"], "postprocess": R("table")},
+    {"name": "formPL$string$5", "symbols": [{"literal":"t"}, {"literal":"a"}, {"literal":"b"}, {"literal":"l"}, {"literal":"e"}, {"literal":"s"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formPL", "symbols": ["formPL$string$5"], "postprocess": R("table")},
+    {"name": "formSG$string$6", "symbols": [{"literal":"f"}, {"literal":"l"}, {"literal":"o"}, {"literal":"o"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formSG", "symbols": ["formSG$string$6"], "postprocess": R("floor")},
+    {"name": "formPL$string$6", "symbols": [{"literal":"f"}, {"literal":"l"}, {"literal":"o"}, {"literal":"o"}, {"literal":"r"}, {"literal":"s"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formPL", "symbols": ["formPL$string$6"], "postprocess": R("floor")},
+    {"name": "formSG$string$7", "symbols": [{"literal":"b"}, {"literal":"o"}, {"literal":"x"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formSG", "symbols": ["formSG$string$7"], "postprocess": R("box")},
+    {"name": "formPL$string$7", "symbols": [{"literal":"b"}, {"literal":"o"}, {"literal":"x"}, {"literal":"e"}, {"literal":"s"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "formPL", "symbols": ["formPL$string$7"], "postprocess": R("box")},
     {"name": "take$string$1", "symbols": [{"literal":"t"}, {"literal":"a"}, {"literal":"k"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
     {"name": "take", "symbols": ["take$string$1"]},
     {"name": "take$string$2", "symbols": [{"literal":"g"}, {"literal":"r"}, {"literal":"a"}, {"literal":"s"}, {"literal":"p"}], "postprocess": function joiner(d) {return d.join('');}},
@@ -178,20 +505,95 @@ var grammar = {
     {"name": "take$string$3", "symbols": [{"literal":"p"}, {"literal":"i"}, {"literal":"c"}, {"literal":"k"}], "postprocess": function joiner(d) {return d.join('');}},
     {"name": "take$string$4", "symbols": [{"literal":"u"}, {"literal":"p"}], "postprocess": function joiner(d) {return d.join('');}},
     {"name": "take", "symbols": ["take$string$3", "take$string$4"]},
+    {"name": "where_is$string$1", "symbols": [{"literal":"w"}, {"literal":"h"}, {"literal":"e"}, {"literal":"r"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "where_is$subexpression$1$string$1", "symbols": [{"literal":"i"}, {"literal":"s"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "where_is$subexpression$1", "symbols": ["where_is$subexpression$1$string$1"]},
+    {"name": "where_is$subexpression$1$string$2", "symbols": [{"literal":"a"}, {"literal":"r"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "where_is$subexpression$1", "symbols": ["where_is$subexpression$1$string$2"]},
+    {"name": "where_is", "symbols": ["where_is$string$1", "where_is$subexpression$1"]},
+    {"name": "how_many$string$1", "symbols": [{"literal":"h"}, {"literal":"o"}, {"literal":"w"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "how_many$string$2", "symbols": [{"literal":"m"}, {"literal":"a"}, {"literal":"n"}, {"literal":"y"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "how_many", "symbols": ["how_many$string$1", "how_many$string$2"]},
+    {"name": "are_there$string$1", "symbols": [{"literal":"a"}, {"literal":"r"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "are_there$string$2", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"e"}, {"literal":"r"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "are_there", "symbols": ["are_there$string$1", "are_there$string$2"]},
+    {"name": "are$string$1", "symbols": [{"literal":"a"}, {"literal":"r"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "are", "symbols": ["are$string$1"]},
+    {"name": "is$string$1", "symbols": [{"literal":"i"}, {"literal":"s"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "is", "symbols": ["is$string$1"]},
+    {"name": "is", "symbols": ["are"]},
     {"name": "move$string$1", "symbols": [{"literal":"m"}, {"literal":"o"}, {"literal":"v"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
     {"name": "move", "symbols": ["move$string$1"]},
     {"name": "move$string$2", "symbols": [{"literal":"p"}, {"literal":"u"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
     {"name": "move", "symbols": ["move$string$2"]},
     {"name": "move$string$3", "symbols": [{"literal":"d"}, {"literal":"r"}, {"literal":"o"}, {"literal":"p"}], "postprocess": function joiner(d) {return d.join('');}},
     {"name": "move", "symbols": ["move$string$3"]},
-    {"name": "it$string$1", "symbols": [{"literal":"i"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
-    {"name": "it", "symbols": ["it$string$1"]},
+    {"name": "remove", "symbols": ["take"]},
+    {"name": "remove$string$1", "symbols": [{"literal":"r"}, {"literal":"e"}, {"literal":"m"}, {"literal":"o"}, {"literal":"v"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "remove", "symbols": ["remove$string$1"]},
+    {"name": "clear$string$1", "symbols": [{"literal":"c"}, {"literal":"l"}, {"literal":"e"}, {"literal":"a"}, {"literal":"r"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "clear", "symbols": ["clear$string$1"]},
+    {"name": "clear$string$2", "symbols": [{"literal":"e"}, {"literal":"m"}, {"literal":"p"}, {"literal":"t"}, {"literal":"y"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "clear", "symbols": ["clear$string$2"]},
+    {"name": "make_sure$string$1", "symbols": [{"literal":"m"}, {"literal":"a"}, {"literal":"k"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "make_sure$string$2", "symbols": [{"literal":"s"}, {"literal":"u"}, {"literal":"r"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "make_sure", "symbols": ["make_sure$string$1", "make_sure$string$2"]},
+    {"name": "swap$string$1", "symbols": [{"literal":"s"}, {"literal":"w"}, {"literal":"a"}, {"literal":"p"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "swap", "symbols": ["swap$string$1"]},
+    {"name": "swap$string$2", "symbols": [{"literal":"e"}, {"literal":"x"}, {"literal":"c"}, {"literal":"h"}, {"literal":"a"}, {"literal":"n"}, {"literal":"g"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "swap", "symbols": ["swap$string$2"]},
+    {"name": "stack$string$1", "symbols": [{"literal":"s"}, {"literal":"t"}, {"literal":"a"}, {"literal":"c"}, {"literal":"k"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "stack$ebnf$1$string$1", "symbols": [{"literal":"u"}, {"literal":"p"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "stack$ebnf$1", "symbols": ["stack$ebnf$1$string$1"], "postprocess": id},
+    {"name": "stack$ebnf$1", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "stack", "symbols": ["stack$string$1", "stack$ebnf$1"]},
+    {"name": "stack$string$2", "symbols": [{"literal":"p"}, {"literal":"i"}, {"literal":"l"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "stack$string$3", "symbols": [{"literal":"u"}, {"literal":"p"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "stack", "symbols": ["stack$string$2", "stack$string$3"]},
+    {"name": "unstack$string$1", "symbols": [{"literal":"u"}, {"literal":"n"}, {"literal":"s"}, {"literal":"t"}, {"literal":"a"}, {"literal":"c"}, {"literal":"k"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "unstack", "symbols": ["unstack$string$1"]},
+    {"name": "unstack$string$2", "symbols": [{"literal":"u"}, {"literal":"n"}, {"literal":"p"}, {"literal":"i"}, {"literal":"l"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "unstack", "symbols": ["unstack$string$2"]},
+    {"name": "nothing$string$1", "symbols": [{"literal":"n"}, {"literal":"o"}, {"literal":"t"}, {"literal":"h"}, {"literal":"i"}, {"literal":"n"}, {"literal":"g"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "nothing$subexpression$1$string$1", "symbols": [{"literal":"i"}, {"literal":"s"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "nothing$subexpression$1", "symbols": ["nothing$subexpression$1$string$1"]},
+    {"name": "nothing$subexpression$1$string$2", "symbols": [{"literal":"a"}, {"literal":"r"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "nothing$subexpression$1", "symbols": ["nothing$subexpression$1$string$2"]},
+    {"name": "nothing", "symbols": ["nothing$string$1", "nothing$subexpression$1"]},
+    {"name": "pronounSG$string$1", "symbols": [{"literal":"i"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "pronounSG", "symbols": ["pronounSG$string$1"]},
+    {"name": "pronounSG$subexpression$1$string$1", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"a"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "pronounSG$subexpression$1", "symbols": ["pronounSG$subexpression$1$string$1"]},
+    {"name": "pronounSG$subexpression$1$string$2", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"i"}, {"literal":"s"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "pronounSG$subexpression$1", "symbols": ["pronounSG$subexpression$1$string$2"]},
+    {"name": "pronounSG$string$2", "symbols": [{"literal":"o"}, {"literal":"n"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "pronounSG", "symbols": ["pronounSG$subexpression$1", "pronounSG$string$2"]},
+    {"name": "pronounPL$string$1", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"e"}, {"literal":"m"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "pronounPL", "symbols": ["pronounPL$string$1"]},
+    {"name": "pronounPL$subexpression$1$string$1", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"o"}, {"literal":"s"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "pronounPL$subexpression$1", "symbols": ["pronounPL$subexpression$1$string$1"]},
+    {"name": "pronounPL$subexpression$1$string$2", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"e"}, {"literal":"s"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "pronounPL$subexpression$1", "symbols": ["pronounPL$subexpression$1$string$2"]},
+    {"name": "pronounPL$ebnf$1$subexpression$1$string$1", "symbols": [{"literal":"o"}, {"literal":"n"}, {"literal":"e"}, {"literal":"s"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "pronounPL$ebnf$1$subexpression$1", "symbols": ["pronounPL$ebnf$1$subexpression$1$string$1"]},
+    {"name": "pronounPL$ebnf$1", "symbols": ["pronounPL$ebnf$1$subexpression$1"], "postprocess": id},
+    {"name": "pronounPL$ebnf$1", "symbols": [], "postprocess": function(d) {return null;}},
+    {"name": "pronounPL", "symbols": ["pronounPL$subexpression$1", "pronounPL$ebnf$1"]},
     {"name": "that_is$string$1", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"a"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
     {"name": "that_is$string$2", "symbols": [{"literal":"i"}, {"literal":"s"}], "postprocess": function joiner(d) {return d.join('');}},
     {"name": "that_is", "symbols": ["that_is$string$1", "that_is$string$2"]},
     {"name": "that_are$string$1", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"a"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
     {"name": "that_are$string$2", "symbols": [{"literal":"a"}, {"literal":"r"}, {"literal":"e"}], "postprocess": function joiner(d) {return d.join('');}},
     {"name": "that_are", "symbols": ["that_are$string$1", "that_are$string$2"]},
+    {"name": "first$string$1", "symbols": [{"literal":"f"}, {"literal":"i"}, {"literal":"r"}, {"literal":"s"}, {"literal":"t"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "first", "symbols": ["first$string$1"]},
+    {"name": "then$string$1", "symbols": [{"literal":"a"}, {"literal":"n"}, {"literal":"d"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "then", "symbols": ["then$string$1"]},
+    {"name": "then$string$2", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"e"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "then", "symbols": ["then$string$2"]},
+    {"name": "then$string$3", "symbols": [{"literal":"a"}, {"literal":"n"}, {"literal":"d"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "then$string$4", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"e"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
+    {"name": "then", "symbols": ["then$string$3", "then$string$4"]},
     {"name": "will_you$subexpression$1$string$1", "symbols": [{"literal":"w"}, {"literal":"i"}, {"literal":"l"}, {"literal":"l"}], "postprocess": function joiner(d) {return d.join('');}},
     {"name": "will_you$subexpression$1", "symbols": ["will_you$subexpression$1$string$1"]},
     {"name": "will_you$subexpression$1$string$2", "symbols": [{"literal":"c"}, {"literal":"a"}, {"literal":"n"}], "postprocess": function joiner(d) {return d.join('');}},
@@ -5,6 +5,7 @@
 
 var defaultWorld = 'small';
 var defaultSpeech = false;
+var defaultLanguage = 'en';
 
 $(function(){
     var current : string = getURLParameter('world');
@@ -13,25 +14,45 @@ $(function(){
     }
     var speech : string = (getURLParameter('speech') || "").toLowerCase();
     var useSpeech : boolean = (speech == 'true' || speech == '1' || defaultSpeech);
+    var language : string = getURLParameter('lang');
+    if (Messages.languages().indexOf(language) == -1) {
+        language = defaultLanguage;
+    }
+    Messages.setLanguage(language);
 
     $('#currentworld').text(current);
     $('<a>').text('reset')
-        .attr('href', '?world=' + current + '&speech=' + useSpeech)
+        .attr('href', '?world=' + current + '&speech=' + useSpeech + '&lang=' + language)
         .appendTo($('#resetworld'));
     $('#otherworlds').empty();
     for (var wname in ExampleWorlds) {
         if (wname !== current) {
             $('<a>').text(wname)
-                .attr('href', '?world=' + wname + '&speech=' + useSpeech)
+                .attr('href', '?world=' + wname + '&speech=' + useSpeech + '&lang=' + language)
                 .appendTo($('#otherworlds'))
                 .after(' ');
         }
     }
     $('<a>').text(useSpeech ? 'turn off' : 'turn on')
-        .attr('href', '?world=' + current + '&speech=' + (!useSpeech))
+        .attr('href', '?world=' + current + '&speech=' + (!useSpeech) + '&lang=' + language)
         .appendTo($('#togglespeech'));
+    $('#currentlanguage').text(language);
+    for (var lname of Messages.languages()) {
+        if (lname !== language) {
+            $('<a>').text(lname)
+                .attr('href', '?world=' + current + '&speech=' + useSpeech + '&lang=' + lname)
+                .appendTo($('#otherlanguages'))
+                .after(' ');
+        }
+    }
 
-    var world : World = new SVGWorld(ExampleWorlds[current], useSpeech);
+    var world : SVGWorld = new SVGWorld(ExampleWorlds[current], useSpeech);
+    if (language !== defaultLanguage) {
+        // Both the system and the user speak the chosen language
+        for (var participant in world.voices) {
+            world.voices[participant]['lang'] = Messages.locale();
+        }
+    }
     Shrdlite.interactive(world);
 });
 
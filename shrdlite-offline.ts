@@ -7,15 +7,19 @@ var nodename = process.argv[0];
 var jsfile = process.argv[1].replace(/^.*\//, "");
 var worldname = process.argv[2];
 var utterance = process.argv[3];
+var language = process.argv[4] || "en";
 
 var usage = "Usage: " + nodename + " " + jsfile + 
     " (" + Object.keys(ExampleWorlds).join(" | ") + ")" +
-    " (utterance | example no.)";
+    " (utterance | example no.)" +
+    " [" + Messages.languages().join(" | ") + "]";
 
-if (process.argv.length != 4 || !ExampleWorlds[worldname]) {
+if (process.argv.length < 4 || process.argv.length > 5 || !ExampleWorlds[worldname] ||
+    Messages.languages().indexOf(language) == -1) {
     console.error(usage);
     process.exit(1);
 } 
+Messages.setLanguage(language);
 
 var world = new TextWorld(ExampleWorlds[worldname]);
 
@@ -29,7 +33,7 @@ if (!isNaN(example)) {
 }
 
 world.printWorld(() => {
-    var plan = Shrdlite.parseUtteranceIntoPlan(world, utterance);
+    var plan = Shrdlite.parseUtteranceIntoPlan(world, utterance, Dialogue.newContext());
     console.log();
     world.performPlan(plan, () => {
         world.printWorld();